@@ -1,27 +1,118 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
 import { ConfigManager } from './config';
+import * as utils from './utils';
 
 export interface ApiError {
   message: string;
   code?: string;
   status?: number;
+  // Underlying transport error, e.g. ECONNREFUSED vs. a timeout
+  cause?: Error;
+}
+
+export interface RequestOptions extends AxiosRequestConfig {
+  retries?: number;
 }
 
 interface ApiErrorResponse {
     message?: string;
     code?: string;
   }
-  
+
+export interface SessionResponse {
+  token: string;
+  refreshToken?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Thrown when the stored session is rejected and can't be refreshed. The CLI
+ * exits with its own code for it, SDK users can catch it to sign in again.
+ */
+export class SessionExpiredError extends Error {
+  constructor(public readonly tokenFromEnv: boolean) {
+    super(tokenFromEnv
+      ? 'The token in VAF_TOKEN was rejected (expired or revoked).'
+      : 'Your session has expired. Please run "vaf login" to sign in again.');
+    this.name = 'SessionExpiredError';
+  }
+}
+
+interface VafRequestConfig extends InternalAxiosRequestConfig {
+  usedStoredToken?: boolean;
+  retriedAfterRefresh?: boolean;
+  retries?: number;
+  attempt?: number;
+}
+
+const DEFAULT_TIMEOUT = 60000;
+const DEFAULT_RETRIES = 3;
+const BASE_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 10000;
+const MAX_RETRY_AFTER = 120000;
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUSES = [502, 503, 504];
+// Statuses that say the request wasn't processed, so even a POST can be sent again
+const UNPROCESSED_STATUSES = [429, 503];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND'];
+
+// Requests that sign in rather than use a session, so a stored token must not leak into them
+const SESSION_PATHS = ['/api/login', '/api/refresh-token'];
+
+function isSessionRequest(url: string | undefined): boolean {
+  return !!url && SESSION_PATHS.includes(url.split('?')[0]);
+}
+
+// Shared across ApiClient instances so concurrent 401s trigger a single refresh
+let refreshInFlight: Promise<boolean> | null = null;
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfter(header: string | undefined): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function describeTransportError(error: AxiosError, timeout?: number): string {
+  switch (error.code) {
+    case 'ECONNABORTED':
+    case 'ETIMEDOUT':
+      return `Request timed out${timeout ? ` after ${Math.round(timeout / 1000)}s` : ''}`;
+    case 'ECONNREFUSED':
+      return 'Network error - connection refused by server';
+    case 'ENOTFOUND':
+    case 'EAI_AGAIN':
+      return 'Network error - could not resolve server host';
+    case 'ECONNRESET':
+    case 'EPIPE':
+      return 'Network error - connection reset by server';
+    default:
+      return 'Network error - could not reach server';
+  }
+}
 
 export class ApiClient {
   private client: AxiosInstance;
   private config: ConfigManager;
+  private retries: number;
 
-  constructor() {
+  constructor(options: { timeout?: number; retries?: number } = {}) {
     this.config = ConfigManager.getInstance();
+    this.retries = options.retries ?? envNumber('VAF_MAX_RETRIES', DEFAULT_RETRIES);
     this.client = axios.create({
       baseURL: this.config.getApiUrl(),
-      timeout: 600000, // 10 minutes for operations like deployments
+      // Per-call timeouts override this, e.g. deployments pass their own
+      timeout: options.timeout ?? envNumber('VAF_REQUEST_TIMEOUT', DEFAULT_TIMEOUT / 1000) * 1000,
       headers: {
         'Content-Type': 'application/json',
       },
@@ -29,9 +120,13 @@ export class ApiClient {
 
     // Add request interceptor to include auth token
     this.client.interceptors.request.use((config) => {
+      // Resolve the API URL per request, the active profile is only known after argument parsing
+      config.baseURL = this.config.getApiUrl();
       const token = this.config.getToken();
-      if (token) {
+      // Keep an explicit Authorization header, e.g. when validating a token before saving it
+      if (token && !config.headers.Authorization && !isSessionRequest(config.url)) {
         config.headers.Authorization = `Bearer ${token}`;
+        (config as VafRequestConfig).usedStoredToken = true;
       }
       // Don't set Content-Type for FormData (multipart uploads)
       if (config.data && config.data.constructor && config.data.constructor.name === 'FormData') {
@@ -43,7 +138,29 @@ export class ApiClient {
     // Add response interceptor for error handling
     this.client.interceptors.response.use(
       (response) => response,
-      (error: AxiosError) => {
+      async (error: AxiosError) => {
+        const requestConfig = error.config as VafRequestConfig | undefined;
+        if (requestConfig && this.shouldRetry(error, requestConfig)) {
+          requestConfig.attempt = (requestConfig.attempt || 0) + 1;
+          const delay = this.retryDelay(error, requestConfig.attempt);
+          const reason = error.response ? `HTTP ${error.response.status}` : error.code || error.message;
+          utils.warn(
+            `Request to ${requestConfig.url} failed (${reason}), retrying in ${(delay / 1000).toFixed(1)}s ` +
+            `(attempt ${requestConfig.attempt + 1}/${this.maxRetries(requestConfig) + 1})`
+          );
+          await sleep(delay);
+          return this.client.request(requestConfig);
+        }
+
+        if (error.response?.status === 401 && requestConfig?.usedStoredToken) {
+          if (!requestConfig.retriedAfterRefresh && await this.refreshSession()) {
+            requestConfig.retriedAfterRefresh = true;
+            delete requestConfig.headers.Authorization;
+            return this.client.request(requestConfig);
+          }
+          throw new SessionExpiredError(this.config.isTokenFromEnv());
+        }
+
         if (error.response) {
           const apiError: ApiError = {
             message: (error.response.data as ApiErrorResponse)?.message || error.message,
@@ -52,39 +169,102 @@ export class ApiClient {
           };
           throw apiError;
         } else if (error.request) {
-          throw { message: 'Network error - could not reach server' };
+          const apiError: ApiError = {
+            message: `${describeTransportError(error, requestConfig?.timeout)} (${error.code || error.message})`,
+            code: error.code,
+            cause: error,
+          };
+          throw apiError;
         } else {
-          throw { message: error.message };
+          throw { message: error.message, cause: error } as ApiError;
         }
       }
     );
   }
 
-  public async get<T>(url: string): Promise<T> {
-    const response = await this.client.get<T>(url);
-    return response.data;
+  private maxRetries(config: VafRequestConfig): number {
+    return config.retries ?? this.retries;
   }
 
-  public async post<T, D = any>(url: string, data?: D, options?: any): Promise<T> {
-    if (options) {
-      const response = await this.client.post<T>(url, data, options);
-      return response.data;
+  /**
+   * A POST may already have reached the server when its connection fails or a
+   * gateway answers 502/504, and sending it again could start a second deploy.
+   * Those are only retried for idempotent verbs; 429 and 503 for every verb.
+   */
+  private shouldRetry(error: AxiosError, config: VafRequestConfig): boolean {
+    if ((config.attempt || 0) >= this.maxRetries(config)) {
+      return false;
+    }
+    // Streams and FormData bodies are consumed by the first attempt
+    if (config.data && typeof config.data === 'object' && typeof config.data.pipe === 'function') {
+      return false;
+    }
+
+    const idempotent = IDEMPOTENT_METHODS.includes((config.method || 'get').toLowerCase());
+    if (error.response) {
+      const status = error.response.status;
+      return UNPROCESSED_STATUSES.includes(status) || (idempotent && RETRYABLE_STATUSES.includes(status));
     }
-    const response = await this.client.post<T>(url, data);
+    return idempotent && RETRYABLE_ERROR_CODES.includes(error.code || '');
+  }
+
+  private retryDelay(error: AxiosError, attempt: number): number {
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, MAX_RETRY_AFTER);
+    }
+    // Exponential backoff with jitter so parallel CLIs don't retry in lockstep
+    const ceiling = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** (attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  private refreshSession(): Promise<boolean> {
+    const refreshToken = this.config.getRefreshToken();
+    // Tokens injected through VAF_TOKEN are never refreshed or persisted
+    if (!refreshToken || this.config.isTokenFromEnv()) {
+      return Promise.resolve(false);
+    }
+
+    if (!refreshInFlight) {
+      // Bypass this.client so a rejected refresh doesn't re-enter the 401 handling
+      refreshInFlight = axios
+        .post<SessionResponse>(`${this.config.getApiUrl()}/api/refresh-token`, { refreshToken }, { timeout: 30000 })
+        .then((response) => {
+          this.config.setToken(response.data.token, {
+            refreshToken: response.data.refreshToken || refreshToken,
+            expiresAt: response.data.expiresAt,
+          });
+          return true;
+        })
+        .catch(() => false)
+        .finally(() => {
+          refreshInFlight = null;
+        });
+    }
+    return refreshInFlight;
+  }
+
+  public async get<T>(url: string, options?: RequestOptions): Promise<T> {
+    const response = await this.client.get<T>(url, options);
+    return response.data;
+  }
+
+  public async post<T, D = any>(url: string, data?: D, options?: RequestOptions): Promise<T> {
+    const response = await this.client.post<T>(url, data, options);
     return response.data;
   }
 
-  public async put<T, D = any>(url: string, data?: D): Promise<T> {
-    const response = await this.client.put<T>(url, data);
+  public async put<T, D = any>(url: string, data?: D, options?: RequestOptions): Promise<T> {
+    const response = await this.client.put<T>(url, data, options);
     return response.data;
   }
 
-  public async delete<T>(url: string): Promise<T> {
-    const response = await this.client.delete<T>(url);
+  public async delete<T>(url: string, options?: RequestOptions): Promise<T> {
+    const response = await this.client.delete<T>(url, options);
     return response.data;
   }
 
-  public async request<T>(config: any): Promise<T> {
+  public async request<T>(config: RequestOptions): Promise<T> {
     const response = await this.client.request<T>(config);
     return response.data;
   }
@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as esbuild from 'esbuild';
+import { PackageFile } from './ignore';
+
+export const BUNDLE_DIR = '.vaf-bundle';
+
+const ENTRY_EXTENSIONS = ['.ts', '.js', '.mts', '.mjs', '.cts', '.cjs', '.tsx', '.jsx'];
+
+// A package depending on one of these loads a compiled addon at runtime
+const NATIVE_LOADERS = ['bindings', 'node-gyp-build', 'prebuild-install', 'node-pre-gyp', '@mapbox/node-pre-gyp', 'node-addon-api', 'nan'];
+
+export interface BundleOptions {
+  handler: string;
+  runtime: string;
+  // Package names or `@scope/*` patterns to leave out of the bundle
+  externals?: string[];
+  // Copy the external packages next to the bundle instead of into a layer
+  includeExternals?: boolean;
+}
+
+export interface BundleResult {
+  outDir: string;
+  entryPoint: string;
+  files: PackageFile[];
+  // Package directories relative to node_modules, with their dependencies
+  externalPackages: string[];
+  warnings: string[];
+}
+
+function readPackageJson(packageDir: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Maps `index.handler` or `src/api.handler` to the source file to bundle from,
+ * trying TypeScript and JavaScript extensions and directory index files.
+ */
+export function resolveHandlerEntry(cwd: string, handler: string): { entry: string; modulePath: string } {
+  const separator = handler.lastIndexOf('.');
+  if (separator <= 0) {
+    throw new Error(`Invalid handler "${handler}" (expected <file>.<export>, e.g. index.handler)`);
+  }
+
+  const modulePath = handler.slice(0, separator);
+  const candidates = [
+    ...ENTRY_EXTENSIONS.map((ext) => `${modulePath}${ext}`),
+    ...ENTRY_EXTENSIONS.map((ext) => `${modulePath}/index${ext}`),
+  ];
+  const entry = candidates.find((candidate) => fs.existsSync(path.join(cwd, candidate)));
+  if (!entry) {
+    throw new Error(`Cannot find the entry point for handler "${handler}" (looked for ${modulePath}.ts, ${modulePath}.js, ...)`);
+  }
+
+  return { entry, modulePath };
+}
+
+function listNodeModules(nodeModules: string): string[] {
+  if (!fs.existsSync(nodeModules)) {
+    return [];
+  }
+  const names: string[] = [];
+  fs.readdirSync(nodeModules).forEach((name) => {
+    if (name.startsWith('.')) return;
+    if (name.startsWith('@')) {
+      fs.readdirSync(path.join(nodeModules, name)).forEach((scoped) => names.push(`${name}/${scoped}`));
+    } else {
+      names.push(name);
+    }
+  });
+  return names;
+}
+
+function isNativePackage(packageDir: string): boolean {
+  const pkg = readPackageJson(packageDir);
+  if (!pkg) return false;
+  if (pkg.gypfile || fs.existsSync(path.join(packageDir, 'binding.gyp'))) return true;
+
+  const dependencies = { ...pkg.dependencies, ...pkg.optionalDependencies };
+  return NATIVE_LOADERS.some((loader) => loader in dependencies);
+}
+
+function packageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * Expands `@scope/*` patterns against the installed packages; plain names are
+ * kept even when they aren't installed (e.g. provided by the runtime).
+ */
+function expandExternals(patterns: string[], installed: string[]): string[] {
+  const names = new Set<string>();
+  patterns.forEach((pattern) => {
+    if (pattern.endsWith('/*')) {
+      const scope = pattern.slice(0, -1);
+      installed.filter((name) => name.startsWith(scope)).forEach((name) => names.add(name));
+    } else {
+      names.add(pattern);
+    }
+  });
+  return [...names];
+}
+
+/**
+ * Resolves a package like node does, from `fromDir` up to the project root,
+ * and returns its directory relative to the root node_modules.
+ */
+function resolvePackageDir(cwd: string, name: string, fromDir: string): string | undefined {
+  const nodeModules = path.join(cwd, 'node_modules');
+  for (let dir = fromDir; ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, 'node_modules', name);
+    if (fs.existsSync(path.join(candidate, 'package.json'))) {
+      return path.relative(nodeModules, candidate).split(path.sep).join('/');
+    }
+    if (dir === cwd || path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Collects the packages and everything they depend on at runtime.
+ */
+function dependencyClosure(cwd: string, names: string[]): string[] {
+  const nodeModules = path.join(cwd, 'node_modules');
+  const seen = new Set<string>();
+
+  const visit = (name: string, fromDir: string) => {
+    const packagePath = resolvePackageDir(cwd, name, fromDir);
+    if (!packagePath || seen.has(packagePath)) return;
+    seen.add(packagePath);
+
+    // pnpm links packages to node_modules/.pnpm, where their dependencies sit next to them
+    const packageDir = fs.realpathSync(path.join(nodeModules, packagePath));
+    const realPath = path.relative(nodeModules, packageDir).split(path.sep).join('/');
+    if (realPath !== packagePath && !realPath.startsWith('..')) {
+      seen.add(realPath);
+    }
+    const pkg = readPackageJson(packageDir) || {};
+    Object.keys({ ...pkg.dependencies, ...pkg.optionalDependencies }).forEach((dependency) => {
+      visit(dependency, packageDir);
+    });
+  };
+
+  names.forEach((name) => visit(name, cwd));
+
+  // Nested packages are copied along with the package that contains them
+  const sorted = [...seen].sort();
+  return sorted.filter((packagePath) =>
+    !sorted.some((other) => other !== packagePath && packagePath.startsWith(`${other}/node_modules/`))
+  );
+}
+
+function listOutput(outDir: string, dir = outDir): PackageFile[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listOutput(outDir, fullPath);
+    }
+    const relativePath = path.relative(outDir, fullPath).split(path.sep).join('/');
+    if (entry.isSymbolicLink()) {
+      return [{ path: relativePath, size: 0, symlink: true }];
+    }
+    return [{ path: relativePath, size: fs.statSync(fullPath).size }];
+  });
+}
+
+/**
+ * Bundles the handler into a single tree-shaken file with a source map. The
+ * output keeps the handler's path, so the configured handler still resolves.
+ * Native modules and configured externals stay out of the bundle.
+ */
+export async function bundleFunction(cwd: string, options: BundleOptions): Promise<BundleResult> {
+  const outDir = path.join(cwd, BUNDLE_DIR);
+  fs.rmSync(outDir, { recursive: true, force: true });
+  try {
+    return await buildBundle(cwd, outDir, options);
+  } catch (error) {
+    // The output sits in the project, don't leave a partial bundle behind
+    fs.rmSync(outDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+async function buildBundle(cwd: string, outDir: string, options: BundleOptions): Promise<BundleResult> {
+  const { entry, modulePath } = resolveHandlerEntry(cwd, options.handler);
+  const nodeModules = path.join(cwd, 'node_modules');
+  const installed = listNodeModules(nodeModules);
+  const natives = installed.filter((name) => isNativePackage(path.join(nodeModules, name)));
+  const configured = expandExternals(options.externals || [], installed);
+
+  // nodejs20.x -> node20
+  const nodeVersion = /^nodejs(\d+)/.exec(options.runtime);
+
+  const result = await esbuild.build({
+    absWorkingDir: path.resolve(cwd),
+    entryPoints: [entry],
+    outfile: path.join(outDir, `${modulePath}.js`),
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    target: nodeVersion ? `node${nodeVersion[1]}` : 'node18',
+    external: [...natives, ...configured],
+    sourcemap: true,
+    // Keep the map small, stack traces only need the mappings
+    sourcesContent: false,
+    metafile: true,
+    logLevel: 'silent',
+  });
+
+  // Only the native packages the code imports go to the layer
+  const importedExternals = new Set<string>();
+  Object.values(result.metafile.outputs).forEach((output) => {
+    output.imports
+      .filter((imported) => imported.external && !imported.path.startsWith('node:'))
+      .forEach((imported) => importedExternals.add(packageName(imported.path)));
+  });
+  const layerRoots = [
+    ...natives.filter((name) => importedExternals.has(name)),
+    ...configured.filter((name) => installed.includes(name)),
+  ];
+  const externalPackages = dependencyClosure(cwd, [...new Set(layerRoots)]);
+
+  if (options.includeExternals) {
+    externalPackages.forEach((packagePath) => {
+      fs.cpSync(path.join(nodeModules, packagePath), path.join(outDir, 'node_modules', packagePath), {
+        recursive: true,
+        verbatimSymlinks: true,
+      });
+    });
+  }
+
+  return {
+    outDir,
+    entryPoint: entry,
+    files: listOutput(outDir),
+    externalPackages,
+    warnings: result.warnings.map((warning) => warning.text),
+  };
+}
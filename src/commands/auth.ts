@@ -1,17 +1,63 @@
 import { Command } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { ApiClient } from '../api';
+import { VafClient, UserInfo } from '../sdk';
 import { ConfigManager } from '../config';
 import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { printDetails } from '../output';
 
-const api = new ApiClient();
+const client = new VafClient();
 const config = ConfigManager.getInstance();
 
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf-8');
+    process.stdin.on('data', (chunk) => (data += chunk));
+    process.stdin.on('end', () => resolve(data.trim()));
+    process.stdin.on('error', reject);
+  });
+}
+
+async function loginWithToken(token: string): Promise<void> {
+  if (!token) {
+    throw new Error('No token provided');
+  }
+
+  utils.info('Validating token...');
+  let info: UserInfo;
+  try {
+    info = await client.auth.userInfo(token);
+  } catch (error: any) {
+    throw new Error(`Token rejected: ${error.message || 'invalid token'}`);
+  }
+
+  config.setToken(token);
+  utils.success(`Logged in as ${info.user.email}`);
+}
+
 export const loginCommand = new Command('login')
   .description('Login to VAF backend')
-  .action(async () => {
+  .option('--token <token>', 'Authenticate with an API token instead of email and password')
+  .option('--with-token', 'Read an API token from standard input')
+  .action(async (options) => {
     try {
+      if (options.token || options.withToken) {
+        if (!options.token && process.stdin.isTTY) {
+          utils.error('--with-token expects the token on standard input, e.g. echo $TOKEN | vaf login --with-token');
+          process.exit(1);
+        }
+        const token = options.token || await readStdin();
+        await loginWithToken(token);
+        return;
+      }
+
+      if (!process.stdin.isTTY) {
+        utils.error('Cannot prompt for credentials without a terminal. Use --token, --with-token or VAF_TOKEN');
+        process.exit(1);
+      }
+
       const { email, password } = await inquirer.prompt([
         {
           type: 'input',
@@ -28,16 +74,16 @@ export const loginCommand = new Command('login')
       ]);
 
       utils.info('Logging in...');
-      const response = await api.post<{ token: string; user: any }>('/api/login', {
-        email,
-        password,
-      });
+      const response = await client.auth.login(email, password);
 
-      config.setToken(response.token);
+      config.setToken(response.token, {
+        refreshToken: response.refreshToken,
+        expiresAt: response.expiresAt,
+      });
       utils.success(`Welcome back, ${email}!`);
     } catch (error: any) {
       utils.error(error.message || 'Failed to login');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -46,8 +92,22 @@ export const logoutCommand = new Command('logout')
   .action(() => {
     config.clearToken();
     utils.success('Logged out successfully');
+    if (config.isTokenFromEnv()) {
+      utils.warn('VAF_TOKEN is still set in your environment and will keep being used');
+    }
   });
 
+function formatExpiry(expiresAt: string): string {
+  const remaining = new Date(expiresAt).getTime() - Date.now();
+  if (remaining <= 0) {
+    return chalk.red(`${utils.formatDate(expiresAt)} (expired)`);
+  }
+  const hours = Math.floor(remaining / 3600000);
+  const relative = hours >= 48 ? `in ${Math.floor(hours / 24)} days` :
+    hours >= 1 ? `in ${hours} hours` : `in ${Math.max(1, Math.floor(remaining / 60000))} minutes`;
+  return `${utils.formatDate(expiresAt)} (${relative})`;
+}
+
 export const whoamiCommand = new Command('whoami')
   .description('Display current user info')
   .action(async () => {
@@ -59,20 +119,22 @@ export const whoamiCommand = new Command('whoami')
       }
 
       utils.info('Fetching user info...');
-      const user = await api.get<any>('/api/user-info');
+      const { user } = await client.auth.userInfo();
+
+      // Read the token again, the request above may have refreshed it
+      const expiresAt = config.getTokenExpiresAt() || utils.getJwtExpiry(config.getToken())?.toISOString();
       
-      console.log(chalk.bold('\nUser Information:'));
-      console.log(chalk.gray('───────────────────────────'));
-      console.log(chalk.cyan('Email:'), user.user.email);
-      console.log(chalk.cyan('Name:'), user.user.firstName + ' ' + user.user.lastName || 'N/A');
-      console.log(chalk.cyan('ID:'), user.user.id);
-      if (user.createdAt) {
-        console.log(chalk.cyan('Joined:'), utils.formatDate(user.user.createdAt));
-      }
-      console.log();
+      printDetails({ ...user, sessionExpiresAt: expiresAt }, 'User Information', [
+        { header: 'Email', value: (u) => u.email },
+        { header: 'Name', value: (u) => [u.firstName, u.lastName].filter(Boolean).join(' ') || 'N/A' },
+        { header: 'ID', value: (u) => u.id },
+        { header: 'Joined', value: (u) => u.createdAt ? utils.formatDate(u.createdAt) : undefined },
+        { header: 'Session expires', value: (u) => u.sessionExpiresAt ? formatExpiry(u.sessionExpiresAt) : 'unknown' },
+        { header: 'Token source', value: () => config.isTokenFromEnv() ? 'VAF_TOKEN' : `profile "${config.getProfileName()}"` },
+      ]);
     } catch (error: any) {
       utils.error(error.message || 'Failed to fetch user info');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -1,11 +1,13 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { ApiClient } from '../api';
+import { VafClient } from '../sdk';
 import { ConfigManager } from '../config';
 import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { isStructured, printData, printDetails, printList } from '../output';
 
-const api = new ApiClient();
+const client = new VafClient();
 const config = ConfigManager.getInstance();
 
 const cachesCommand = new Command('caches')
@@ -24,35 +26,23 @@ cachesCommand
       }
 
       utils.info('Fetching caches...');
-      const caches = await api.get<any[]>('/api/caches');
-
-      if (caches.length === 0) {
-        utils.info('No caches found.');
-        return;
-      }
-
-      console.log(chalk.bold('\nCaches:'));
-      console.log(chalk.gray('────────────────────────────────────────────────────────────────────────────────'));
-      caches.forEach((cache) => {
-        console.log(chalk.cyan('ID:'), cache.id);
-        console.log(chalk.cyan('Name:'), cache.name);
-        console.log(chalk.cyan('Type:'), cache.type);
-        console.log(chalk.cyan('Specs:'), cache.serverSpecs);
-        console.log(chalk.cyan('Status:'), 
-          cache.status === 'active' ? chalk.green(cache.status) : 
-          cache.status === 'creating' ? chalk.yellow(cache.status) : 
-          cache.status === 'failed' ? chalk.red(cache.status) : cache.status
-        );
-        if (cache.status === 'active' && cache.endpoint) {
-          console.log(chalk.cyan('Endpoint:'), cache.endpoint);
-          console.log(chalk.cyan('Port:'), cache.port);
-        }
-        console.log(chalk.cyan('Created:'), utils.formatDate(cache.createdAt));
-        console.log();
-      });
+      const caches = await client.caches.list();
+
+      printList(caches, [
+        { header: 'ID', value: (cache) => cache.id, colour: (text) => chalk.cyan(text) },
+        { header: 'Name', value: (cache) => cache.name },
+        { header: 'Type', value: (cache) => cache.type },
+        { header: 'Specs', value: (cache) => cache.serverSpecs },
+        { header: 'Status', value: (cache) => cache.status, colour: (text) => utils.colourStatus(text) },
+        {
+          header: 'Endpoint',
+          value: (cache) => cache.status === 'active' && cache.endpoint ? `${cache.endpoint}:${cache.port}` : undefined,
+        },
+        { header: 'Created', value: (cache) => utils.formatDate(cache.createdAt) },
+      ], 'No caches found.');
     } catch (error: any) {
       utils.error(error.message || 'Failed to list caches');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -128,15 +118,19 @@ cachesCommand
       };
 
       utils.info('Creating cache (this may take a few minutes)...');
-      const cache = await api.post<any>('/api/caches', cacheParams);
+      const cache = await client.caches.create(cacheParams);
 
       utils.success(`Cache created: ${cache.name} (${cache.id})`);
+      if (isStructured()) {
+        printData(cache);
+        return;
+      }
       console.log(chalk.gray('Status:'), chalk.yellow(cache.status));
       console.log(chalk.gray('This cache is being created asynchronously.'));
       console.log(chalk.gray('Run "vaf caches show ' + cache.id + '" to check status.'));
     } catch (error: any) {
       utils.error(error.message || 'Failed to create cache');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -152,38 +146,24 @@ cachesCommand
       }
 
       utils.info('Fetching cache...');
-      const cache = await api.get<any>(`/api/caches/${cacheId}`);
-
-      console.log(chalk.bold('\nCache Details:'));
-      console.log(chalk.gray('───────────────────────────'));
-      console.log(chalk.cyan('ID:'), cache.id);
-      console.log(chalk.cyan('Name:'), cache.name);
-      console.log(chalk.cyan('Type:'), cache.type);
-      console.log(chalk.cyan('Specs:'), cache.serverSpecs);
-      console.log(chalk.cyan('Status:'), 
-        cache.status === 'active' ? chalk.green(cache.status) : 
-        cache.status === 'creating' ? chalk.yellow(cache.status) : 
-        cache.status === 'failed' ? chalk.red(cache.status) : cache.status
-      );
-
-      if (cache.status === 'active') {
-        console.log(chalk.green('\nConnection Details:'));
-        console.log(chalk.cyan('Endpoint:'), cache.endpoint);
-        console.log(chalk.cyan('Port:'), cache.port);
-      }
-
-      if (cache.error) {
-        console.log(chalk.red('\nError:'), cache.error);
-      }
-
-      console.log(chalk.cyan('Created:'), utils.formatDate(cache.createdAt));
-      if (cache.updatedAt) {
-        console.log(chalk.cyan('Updated:'), utils.formatDate(cache.updatedAt));
-      }
-      console.log();
+      const cache = await client.caches.get(cacheId);
+
+      const isActive = cache.status === 'active';
+      printDetails(cache, 'Cache Details', [
+        { header: 'ID', value: (c) => c.id },
+        { header: 'Name', value: (c) => c.name },
+        { header: 'Type', value: (c) => c.type },
+        { header: 'Specs', value: (c) => c.serverSpecs },
+        { header: 'Status', value: (c) => c.status, colour: (text) => utils.colourStatus(text) },
+        { header: 'Endpoint', value: (c) => isActive ? c.endpoint : undefined },
+        { header: 'Port', value: (c) => isActive ? c.port : undefined },
+        { header: 'Error', value: (c) => c.error, colour: (text) => chalk.red(text) },
+        { header: 'Created', value: (c) => utils.formatDate(c.createdAt) },
+        { header: 'Updated', value: (c) => c.updatedAt ? utils.formatDate(c.updatedAt) : undefined },
+      ]);
     } catch (error: any) {
       utils.error(error.message || 'Failed to fetch cache');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -200,7 +180,7 @@ cachesCommand
       }
 
       // Get cache info for confirmation
-      const cache = await api.get<any>(`/api/caches/${cacheId}`);
+      const cache = await client.caches.get(cacheId);
 
       if (!options.force) {
         utils.warn(`This will delete cache "${cache.name}" (${cacheId})`);
@@ -222,14 +202,14 @@ cachesCommand
       }
 
       utils.info('Deleting cache...');
-      await api.delete(`/api/caches/${cacheId}`);
+      await client.caches.delete(cacheId);
 
       utils.success('Cache deletion initiated');
       console.log(chalk.gray('The cache is being deleted asynchronously.'));
       console.log(chalk.gray('Run "vaf caches list" to verify deletion.'));
     } catch (error: any) {
       utils.error(error.message || 'Failed to delete cache');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
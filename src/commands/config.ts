@@ -1,17 +1,21 @@
 import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
 import chalk from 'chalk';
-import { ConfigManager } from '../config';
+import { ConfigManager, CONFIG_DIR, CONFIG_FILE, CREDENTIALS_FILE } from '../config';
+import { CREDENTIALS_KEY_ENV } from '../credentials';
+import { findProjectRoot, loadVafConfig, resolveEnvironmentConfig, resolveServiceTargets } from '../project';
 import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { isStructured, printData, printDetails, printList } from '../output';
 
 const config = ConfigManager.getInstance();
 
 const configCommand = new Command('config')
   .description('Manage CLI configuration')
   .action(() => {
-    const currentConfig = config.getConfig();
-    console.log(chalk.bold('\nCurrent Configuration:'));
-    console.log(chalk.gray('───────────────────────────'));
-    utils.prettyJson(currentConfig);
+    printDetails({ profile: config.getProfileName(), ...config.getConfig() }, 'Current Configuration');
   });
 
 configCommand
@@ -52,5 +56,184 @@ configCommand
     console.log(value);
   });
 
+function formatMode(mode: number): string {
+  return '0' + (mode & 0o777).toString(8);
+}
+
+configCommand
+  .command('doctor')
+  .description('Check the configuration and credentials files for problems')
+  .option('--fix', 'Tighten file permissions that are too open')
+  .action((options) => {
+    let problems = 0;
+    const problem = (message: string) => {
+      utils.warn(message);
+      problems++;
+    };
+
+    // POSIX permission bits are meaningless on Windows
+    if (process.platform !== 'win32') {
+      const checks: Array<[string, number]> = [
+        [CONFIG_DIR, 0o700],
+        [CREDENTIALS_FILE, 0o600],
+      ];
+      checks.forEach(([filePath, expected]) => {
+        if (!fs.existsSync(filePath)) return;
+        const mode = fs.statSync(filePath).mode;
+        if ((mode & 0o077) === 0) {
+          utils.success(`${filePath} permissions are ${formatMode(mode)}`);
+        } else if (options.fix) {
+          fs.chmodSync(filePath, expected);
+          utils.success(`${filePath} permissions changed from ${formatMode(mode)} to ${formatMode(expected)}`);
+        } else {
+          problem(`${filePath} is accessible by other users (${formatMode(mode)}). Run "vaf config doctor --fix" or chmod ${formatMode(expected).slice(1)} ${filePath}`);
+        }
+      });
+    }
+
+    if (fs.existsSync(CONFIG_FILE) && /"(token|refreshToken)"\s*:/.test(fs.readFileSync(CONFIG_FILE, 'utf-8'))) {
+      problem(`${CONFIG_FILE} still contains a plaintext token. Run "vaf login" again to move it to ${CREDENTIALS_FILE}`);
+    }
+
+    const store = config.getCredentialStore();
+    if (fs.existsSync(CREDENTIALS_FILE)) {
+      try {
+        store.verify();
+        if (store.isEncrypted()) {
+          utils.success('Credentials are encrypted');
+        } else {
+          utils.info(`Credentials are not encrypted. Set ${CREDENTIALS_KEY_ENV} and log in again to encrypt them`);
+        }
+      } catch (error: any) {
+        problem(error.message);
+      }
+    } else {
+      utils.info('No stored credentials');
+    }
+
+    if (config.isTokenFromEnv()) {
+      utils.info('VAF_TOKEN is set and overrides stored credentials');
+    }
+
+    if (problems > 0) {
+      utils.error(`Found ${problems} problem(s)`);
+      process.exit(1);
+    }
+    utils.success('No problems found');
+  });
+
+configCommand
+  .command('render')
+  .description('Print the vaf.yml settings deploy would use for an environment, after defaults, extends and ${...} placeholders')
+  .argument('[env]', 'Environment in vaf.yml (default: the current environment)')
+  .option('--service <name>', 'Print the settings of one service, merged over the environment\'s')
+  .action((env, options) => {
+    try {
+      const root = findProjectRoot(process.cwd());
+      const vafConfig = root ? loadVafConfig(root) : null;
+      if (!root || !vafConfig) {
+        utils.error('No vaf.yml found in this directory or its parents');
+        process.exit(1);
+      }
+
+      const envName = env || config.getEnvironment();
+      if (!envName) {
+        utils.error('Environment is required. Pass it as an argument or set one with "vaf use <env>"');
+        process.exit(1);
+      }
+      if (!vafConfig.environments?.[envName]) {
+        utils.error(`Environment "${envName}" not found in vaf.yml. Available: ${Object.keys(vafConfig.environments || {}).join(', ') || 'none'}`);
+        process.exit(1);
+      }
+
+      let resolved = resolveEnvironmentConfig(vafConfig, envName, root);
+      if (options.service) {
+        const [target] = resolveServiceTargets(resolved, root, options.service);
+        resolved = { root: path.relative(root, target.root) || '.', ...target.config } as typeof resolved;
+      }
+      if (isStructured()) {
+        printData(resolved);
+      } else {
+        process.stdout.write(yaml.dump(resolved, { indent: 4, lineWidth: -1 }));
+      }
+    } catch (error: any) {
+      utils.error(error.message || 'Failed to render configuration');
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+const profilesCommand = configCommand
+  .command('profiles')
+  .description('Manage named configuration profiles');
+
+profilesCommand
+  .command('list')
+  .alias('ls')
+  .description('List configuration profiles')
+  .action(() => {
+    try {
+      const active = config.getProfileName();
+      printList(config.listProfiles(), [
+        { header: 'Name', value: (profile) => profile.name === active ? `* ${profile.name}` : `  ${profile.name}`, colour: (text, profile) => profile.name === active ? chalk.green(text) : text },
+        { header: 'API URL', value: (profile) => profile.apiUrl },
+        { header: 'Logged In', value: (profile) => profile.loggedIn === null ? 'unknown' : profile.loggedIn ? 'yes' : 'no' },
+        { header: 'Environment', value: (profile) => profile.environment },
+      ], 'No profiles found.');
+    } catch (error: any) {
+      utils.error(error.message || 'Failed to list profiles');
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+profilesCommand
+  .command('add')
+  .description('Add a configuration profile')
+  .argument('<name>', 'Profile name')
+  .option('--api-url <url>', 'API URL for this profile')
+  .option('--use', 'Make the new profile the current one')
+  .action((name, options) => {
+    try {
+      config.addProfile(name, options.apiUrl);
+      utils.success(`Profile "${name}" added`);
+      if (options.use) {
+        config.useProfile(name);
+        utils.success(`Now using profile "${name}"`);
+      }
+      utils.info(`Run "vaf login --profile ${name}" to authenticate`);
+    } catch (error: any) {
+      utils.error(error.message);
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+profilesCommand
+  .command('use')
+  .description('Set the current configuration profile')
+  .argument('<name>', 'Profile name')
+  .action((name) => {
+    try {
+      config.useProfile(name);
+      utils.success(`Now using profile "${name}"`);
+    } catch (error: any) {
+      utils.error(error.message);
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+profilesCommand
+  .command('remove')
+  .alias('rm')
+  .description('Remove a configuration profile and its credentials')
+  .argument('<name>', 'Profile name')
+  .action((name) => {
+    try {
+      config.removeProfile(name);
+      utils.success(`Profile "${name}" removed`);
+    } catch (error: any) {
+      utils.error(error.message);
+      process.exit(exitCodeFor(error));
+    }
+  });
+
 export default configCommand;
 
@@ -1,11 +1,13 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { ApiClient } from '../api';
+import { VafClient } from '../sdk';
 import { ConfigManager } from '../config';
 import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { isStructured, printData, printDetails, printList } from '../output';
 
-const api = new ApiClient();
+const client = new VafClient();
 const config = ConfigManager.getInstance();
 
 const databasesCommand = new Command('databases')
@@ -24,35 +26,20 @@ databasesCommand
       }
 
       utils.info('Fetching databases...');
-      const databases = await api.get<any[]>('/api/databases');
-
-      if (databases.length === 0) {
-        utils.info('No databases found.');
-        return;
-      }
-
-      console.log(chalk.bold('\nDatabases:'));
-      console.log(chalk.gray('────────────────────────────────────────────────────────────────────────────────'));
-      databases.forEach((db) => {
-        console.log(chalk.cyan('ID:'), db.id);
-        console.log(chalk.cyan('Name:'), db.name);
-        console.log(chalk.cyan('Engine:'), db.engine);
-        console.log(chalk.cyan('Specs:'), db.serverSpecs);
-        console.log(chalk.cyan('Status:'), 
-          db.status === 'active' ? chalk.green(db.status) : 
-          db.status === 'creating' ? chalk.yellow(db.status) : 
-          db.status === 'failed' ? chalk.red(db.status) : db.status
-        );
-        if (db.status === 'active' && db.host) {
-          console.log(chalk.cyan('Host:'), db.host);
-          console.log(chalk.cyan('Port:'), db.port);
-        }
-        console.log(chalk.cyan('Created:'), utils.formatDate(db.createdAt));
-        console.log();
-      });
+      const databases = await client.databases.list();
+
+      printList(databases, [
+        { header: 'ID', value: (db) => db.id, colour: (text) => chalk.cyan(text) },
+        { header: 'Name', value: (db) => db.name },
+        { header: 'Engine', value: (db) => db.engine },
+        { header: 'Specs', value: (db) => db.serverSpecs },
+        { header: 'Status', value: (db) => db.status, colour: (text) => utils.colourStatus(text) },
+        { header: 'Host', value: (db) => db.status === 'active' && db.host ? `${db.host}:${db.port}` : undefined },
+        { header: 'Created', value: (db) => utils.formatDate(db.createdAt) },
+      ], 'No databases found.');
     } catch (error: any) {
       utils.error(error.message || 'Failed to list databases');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -152,15 +139,19 @@ databasesCommand
       };
 
       utils.info('Creating database (this may take a few minutes)...');
-      const database = await api.post<any>('/api/databases', databaseParams);
+      const database = await client.databases.create(databaseParams);
 
       utils.success(`Database created: ${database.name} (${database.id})`);
+      if (isStructured()) {
+        printData(database);
+        return;
+      }
       console.log(chalk.gray('Status:'), chalk.yellow(database.status));
       console.log(chalk.gray('This database is being created asynchronously.'));
       console.log(chalk.gray('Run "vaf databases show ' + database.id + '" to check status.'));
     } catch (error: any) {
       utils.error(error.message || 'Failed to create database');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -176,41 +167,27 @@ databasesCommand
       }
 
       utils.info('Fetching database...');
-      const database = await api.get<any>(`/api/databases/${databaseId}`);
-
-      console.log(chalk.bold('\nDatabase Details:'));
-      console.log(chalk.gray('───────────────────────────'));
-      console.log(chalk.cyan('ID:'), database.id);
-      console.log(chalk.cyan('Name:'), database.name);
-      console.log(chalk.cyan('Engine:'), database.engine);
-      console.log(chalk.cyan('Specs:'), database.serverSpecs);
-      console.log(chalk.cyan('Disk:'), `${database.minimumDisk} GB`);
-      console.log(chalk.cyan('Retention:'), `${database.retention} days`);
-      console.log(chalk.cyan('Status:'), 
-        database.status === 'active' ? chalk.green(database.status) : 
-        database.status === 'creating' ? chalk.yellow(database.status) : 
-        database.status === 'failed' ? chalk.red(database.status) : database.status
-      );
-
-      if (database.status === 'active') {
-        console.log(chalk.green('\nConnection Details:'));
-        console.log(chalk.cyan('Host:'), database.host);
-        console.log(chalk.cyan('Port:'), database.port);
-        console.log(chalk.cyan('Password:'), database.password);
-      }
-
-      if (database.error) {
-        console.log(chalk.red('\nError:'), database.error);
-      }
-
-      console.log(chalk.cyan('Created:'), utils.formatDate(database.createdAt));
-      if (database.updatedAt) {
-        console.log(chalk.cyan('Updated:'), utils.formatDate(database.updatedAt));
-      }
-      console.log();
+      const database = await client.databases.get(databaseId);
+
+      const isActive = database.status === 'active';
+      printDetails(database, 'Database Details', [
+        { header: 'ID', value: (db) => db.id },
+        { header: 'Name', value: (db) => db.name },
+        { header: 'Engine', value: (db) => db.engine },
+        { header: 'Specs', value: (db) => db.serverSpecs },
+        { header: 'Disk', value: (db) => `${db.minimumDisk} GB` },
+        { header: 'Retention', value: (db) => `${db.retention} days` },
+        { header: 'Status', value: (db) => db.status, colour: (text) => utils.colourStatus(text) },
+        { header: 'Host', value: (db) => isActive ? db.host : undefined },
+        { header: 'Port', value: (db) => isActive ? db.port : undefined },
+        { header: 'Password', value: (db) => isActive ? db.password : undefined },
+        { header: 'Error', value: (db) => db.error, colour: (text) => chalk.red(text) },
+        { header: 'Created', value: (db) => utils.formatDate(db.createdAt) },
+        { header: 'Updated', value: (db) => db.updatedAt ? utils.formatDate(db.updatedAt) : undefined },
+      ]);
     } catch (error: any) {
       utils.error(error.message || 'Failed to fetch database');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -227,7 +204,7 @@ databasesCommand
       }
 
       // Get database info for confirmation
-      const database = await api.get<any>(`/api/databases/${databaseId}`);
+      const database = await client.databases.get(databaseId);
 
       if (!options.force) {
         utils.warn(`This will delete database "${database.name}" (${databaseId})`);
@@ -249,14 +226,14 @@ databasesCommand
       }
 
       utils.info('Deleting database...');
-      await api.delete(`/api/databases/${databaseId}`);
+      await client.databases.delete(databaseId);
 
       utils.success('Database deletion initiated');
       console.log(chalk.gray('The database is being deleted asynchronously.'));
       console.log(chalk.gray('Run "vaf databases list" to verify deletion.'));
     } catch (error: any) {
       utils.error(error.message || 'Failed to delete database');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -3,83 +3,67 @@ import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
 import chokidar from 'chokidar';
-import axios from 'axios';
 import archiver from 'archiver';
-import { exec, execSync } from 'child_process';
-import { promisify } from 'util';
-import * as yaml from 'js-yaml';
-import { ApiClient } from '../api';
+import { StdioOptions, spawn } from 'child_process';
 import { ConfigManager } from '../config';
+import {
+  EnvironmentConfig,
+  ServiceTarget,
+  findProjectRoot,
+  loadVafConfig,
+  resolveProjectTarget,
+  resolveServiceTargets,
+} from '../project';
+import { LayerCache, hashDependencies } from '../layers';
+import { functionPackageOptions, listPackageFiles } from '../ignore';
+import { BundleResult, bundleFunction } from '../bundle';
+import {
+  UploadKind,
+  UploadTarget,
+  discardPendingUpload,
+  findPendingUpload,
+  setProgressBars,
+  uploadFilePath,
+  uploadPackage,
+} from '../upload';
+import { StagingDirectory } from '../staging';
+import { PackageManager, detectPackageManager, installFiles, runScriptCommand } from '../packagemanager';
+import { DeployError, exitCodeFor, runStage } from '../errors';
+import { resolveEnvironment } from '../environments';
+import { DEFAULT_RUNTIME, LAYER_DIRS, defaultHandler, runtimeFamily } from '../runtime';
+import { PYTHON_DEPENDENCY_FILES, hasPythonDependencies, installPythonDependencies } from '../python';
+import { DeployParams, Deployment, EcrConfig, SessionExpiredError, VafClient } from '../sdk';
+import {
+  DEFAULT_PLATFORM,
+  DockerCliOptions,
+  buildAndPushDockerImage,
+  resolveDockerBuildOptions,
+} from '../docker';
 import * as utils from '../utils';
-import { zipDirectory, readVafIgnore, formatBytes, EcrConfigResponse } from '../utils';
+import { zipFiles, formatBytes } from '../utils';
+import { isStructured, prefixLines, printList, printProgress, progressStream } from '../output';
 
-const api = new ApiClient();
+const client = new VafClient();
 const config = ConfigManager.getInstance();
-const execAsync = promisify(exec);
 
 async function getEcrConfig(
   projectId: string,
   environmentId: string
-): Promise<EcrConfigResponse> {
+): Promise<EcrConfig> {
   try {
-    const response = await api.get<EcrConfigResponse>(
-      `/api/projects/${projectId}/environments/${environmentId}/deployment/ecr-config`
-    );
-    return response;
+    return await client.environments(projectId).ecrConfig(environmentId);
   } catch (error: any) {
-    throw new Error(`Failed to get ECR config: ${error.message}`);
+    const ecrError: any = new Error(`Failed to get ECR config: ${error.message}`);
+    ecrError.cause = error;
+    throw ecrError;
   }
 }
 
-async function buildAndPushDockerImage(
-  ecrConfig: EcrConfigResponse,
-  imageTag: string,
-  dockerfilePath: string
-): Promise<string> {
-  // Check if Dockerfile exists
-  if (!fs.existsSync(dockerfilePath)) {
-    throw new Error(`Dockerfile not found at ${dockerfilePath}`);
-  }
-
-  const repositoryName = ecrConfig.repositoryName;
-  const ecrUri = ecrConfig.ecrRepositoryUri;
-  const fullImageUri = ecrConfig.ecrImageUri;
-
-  utils.info(`Building Docker image: ${repositoryName}:${imageTag}`);
-
-  try {
-    // Step 1: Login to ECR
-    utils.info('Authenticating with AWS ECR...');
-    execSync(ecrConfig.dockerLoginCommand, { stdio: 'inherit' });
-
-    // Step 2: Build Docker image for Lambda using buildx for cross-platform support
-    utils.info('Building Docker image for Lambda (linux/amd64)...');
-    // Use buildx with --load to build for linux/amd64 and load into local Docker
-    execSync(`docker buildx build --platform linux/amd64 --load -t ${repositoryName}:${imageTag} .`, {
-      stdio: 'inherit',
-    });
-
-    // Step 3: Tag image for ECR
-    utils.info('Tagging image for ECR...');
-    execSync(`docker tag ${repositoryName}:${imageTag} ${fullImageUri}`, {
-      stdio: 'inherit',
-    });
-
-    // Step 4: Push to ECR
-    utils.info('Pushing image to ECR...');
-    execSync(`docker push ${fullImageUri}`, {
-      stdio: 'inherit',
-    });
-
-    utils.success(`Successfully pushed image to ECR: ${fullImageUri}`);
-    return fullImageUri;
-  } catch (error: any) {
-    utils.error(`Docker build/push failed: ${error.message}`);
-    throw error;
-  }
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
 }
 
-interface DeployOptions {
+interface DeployOptions extends DockerCliOptions {
   memory?: number;
   timeout?: number;
   database?: string;
@@ -88,42 +72,187 @@ interface DeployOptions {
   runtime?: string;
   handler?: string;
   watch?: boolean;
-  'use-layers'?: boolean;
-  dockerfile?: string;
-  'image-tag'?: string;
+  useLayers?: boolean;
+  rebuildLayer?: boolean;
+  resume?: boolean;
+  useGitignore?: boolean;
+  bundle?: boolean;
+  // False with --no-build
+  build?: boolean;
+  service?: string;
 }
 
-interface LayerResponse {
-  layerArn: string;
-  layerVersion: number;
+interface DeployHookContext {
+  projectId: string;
+  environmentId: string;
+  environmentName: string;
+  service?: string;
+  // Unset for environment hooks that run after several services
+  deploymentId?: string;
+  url?: string;
 }
 
-async function createLayerPackage(cwd: string): Promise<string> {
-  const layerDir = path.join(cwd, '.vaf-layer');
-  const layerZip = path.join(cwd, '.vaf-layer-temp.zip');
-  
-  // Create layer directory structure: layer/nodejs/node_modules
-  const layerNodeJsDir = path.join(layerDir, 'nodejs');
+/**
+ * Status messages of one deploy, prefixed with the service name while
+ * several services deploy side by side.
+ */
+interface DeployLog {
+  prefix: string;
+  info(message: string): void;
+  success(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+function deployLog(service?: string): DeployLog {
+  const prefix = service ? `${chalk.magenta(`[${service}]`)} ` : '';
+  return {
+    prefix,
+    info: (message) => utils.info(prefix + message),
+    success: (message) => utils.success(prefix + message),
+    warn: (message) => utils.warn(prefix + message),
+    error: (message) => utils.error(prefix + message),
+  };
+}
+
+function runCommand(command: string, cwd: string, env: NodeJS.ProcessEnv = process.env, prefix = ''): Promise<number> {
+  return new Promise((resolve, reject) => {
+    // Inherit stdio so build and hook output streams straight to the terminal,
+    // or prefix it line by line when it interleaves with other services
+    const stdio: StdioOptions = prefix ? ['inherit', 'pipe', 'pipe'] : ['inherit', progressStream(), 'inherit'];
+    const child = spawn(command, { cwd, env, shell: true, stdio });
+    prefixLines(child.stdout, progressStream(), prefix);
+    prefixLines(child.stderr, process.stderr, prefix);
+    child.on('error', reject);
+    child.on('close', (code, signal) => resolve(code ?? (signal ? 1 : 0)));
+  });
+}
+
+async function runDeployHooks(
+  commands: string[],
+  cwd: string,
+  context: DeployHookContext,
+  log: DeployLog = deployLog()
+): Promise<void> {
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    VAF_PROJECT_ID: context.projectId,
+    VAF_ENVIRONMENT: context.environmentName,
+    VAF_ENVIRONMENT_ID: context.environmentId,
+    VAF_SERVICE: context.service || '',
+    VAF_DEPLOYMENT_ID: context.deploymentId || '',
+    VAF_DEPLOYMENT_URL: context.url || '',
+  };
+
+  log.info('Running deploy hooks...');
+  for (const hookCmd of commands) {
+    log.info(`Running: ${hookCmd}`);
+    const exitCode = await runCommand(hookCmd, cwd, env, log.prefix);
+    if (exitCode !== 0) {
+      // The hook's own code would be mistaken for a stage's, it is only reported
+      throw new DeployError('hook', `Deploy hook failed with exit code ${exitCode}: ${hookCmd}`);
+    }
+  }
+  log.success('Deploy hooks completed');
+}
+
+function hasScript(cwd: string, script: string): boolean {
+  try {
+    return !!JSON.parse(fs.readFileSync(path.join(cwd, 'package.json'), 'utf-8')).scripts?.[script];
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Runs the build commands from vaf.yml, or the package manager's `build`
+ * script when there are none. A failing command stops the deploy unless it
+ * is marked `continueOnError`.
+ */
+async function runBuild(
+  steps: EnvironmentConfig['build'],
+  packageManager: PackageManager | undefined,
+  cwd: string,
+  log: DeployLog = deployLog()
+): Promise<void> {
+  if (steps) {
+    log.info('Running build commands...');
+    for (const step of steps) {
+      const { command, continueOnError } = typeof step === 'string' ? { command: step, continueOnError: false } : step;
+      if (typeof command !== 'string' || !command) {
+        throw new DeployError('build', `Invalid build command in vaf.yml: ${JSON.stringify(step)}`);
+      }
+
+      log.info(`Running: ${command}`);
+      const exitCode = await runCommand(command, cwd, process.env, log.prefix);
+      if (exitCode !== 0) {
+        if (!continueOnError) {
+          throw new DeployError('build', `Build command failed with exit code ${exitCode}: ${command}`);
+        }
+        log.warn(`Build command failed with exit code ${exitCode}, continuing (continueOnError): ${command}`);
+      }
+    }
+    log.success('Build commands completed');
+  } else if (packageManager && hasScript(cwd, 'build')) {
+    // Fallback to the package manager's build script
+    const command = runScriptCommand(packageManager, 'build');
+    log.info(`Building application: ${command}`);
+    const exitCode = await runCommand(command, cwd, process.env, log.prefix);
+    if (exitCode !== 0) {
+      throw new DeployError('build', `Build failed with exit code ${exitCode}: ${command}`);
+    }
+    log.success('Build completed');
+  }
+}
+
+/**
+ * Builds the layer zip in the directory layout the runtime family expects:
+ * `nodejs/node_modules` for Node.js, `python` for Python.
+ */
+async function createLayerPackage(
+  staging: StagingDirectory,
+  layerZip: string,
+  runtime: string,
+  packages?: string[]
+): Promise<string> {
+  const layerDir = staging.path('layer');
+  const family = runtimeFamily(runtime);
+  if (family === 'docker') {
+    throw new Error('Docker deployments do not use layers');
+  }
+  const targetDir = path.join(layerDir, LAYER_DIRS[family]);
   
   // Clean up old layer dir if exists
   if (fs.existsSync(layerDir)) {
     fs.rmSync(layerDir, { recursive: true, force: true });
   }
   
-  fs.mkdirSync(layerNodeJsDir, { recursive: true });
-  
-  // Copy node_modules to layer/nodejs/node_modules
-  const sourceNodeModules = path.join(cwd, 'node_modules');
-  const targetNodeModules = path.join(layerNodeJsDir, 'node_modules');
-  
-  if (fs.existsSync(sourceNodeModules)) {
-    utils.info('Packaging dependencies for Lambda layer...');
-    fs.cpSync(sourceNodeModules, targetNodeModules, { recursive: true });
+  if (family === 'python') {
+    utils.info('Installing Python dependencies for Lambda layer...');
+    await installPythonDependencies(staging.appDir, targetDir, runtime);
   } else {
-    throw new Error('node_modules not found. Run npm install first.');
+    fs.mkdirSync(targetDir, { recursive: true });
+    const sourceNodeModules = path.join(staging.appDir, 'node_modules');
+    
+    if (packages) {
+      // Bundle mode: only the packages left out of the bundle
+      utils.info(`Packaging ${packages.length} external packages for Lambda layer...`);
+      packages.forEach((packagePath) => {
+        fs.cpSync(path.join(sourceNodeModules, packagePath), path.join(targetDir, packagePath), {
+          recursive: true,
+          verbatimSymlinks: true,
+        });
+      });
+    } else if (fs.existsSync(sourceNodeModules)) {
+      utils.info('Packaging dependencies for Lambda layer...');
+      // pnpm links packages into node_modules/.pnpm, the relative links are kept as they are in the zip
+      fs.cpSync(sourceNodeModules, targetDir, { recursive: true, verbatimSymlinks: true });
+    } else {
+      throw new Error('node_modules not found. Run npm install first.');
+    }
   }
   
-  // Create zip with correct structure: nodejs/node_modules (not just node_modules)
+  // The zip holds the family's top-level directory (nodejs/ or python/), not its contents
   return new Promise((resolve, reject) => {
     const output = fs.createWriteStream(layerZip);
     const archive = archiver('zip', { zlib: { level: 9 } });
@@ -137,72 +266,547 @@ async function createLayerPackage(cwd: string): Promise<string> {
     archive.on('error', reject);
 
     archive.pipe(output);
-    
-    // Add nodejs directory specifically to preserve the structure
-    // The second parameter 'nodejs' is the entry name in the zip
-    archive.directory(layerNodeJsDir, 'nodejs');
-    
+    archive.directory(layerDir, false);
     archive.finalize();
   });
 }
 
-async function createThinPackage(cwd: string, tempZip: string): Promise<string> {
-  // Read ignore patterns
-  const ignorePatterns = await readVafIgnore(cwd);
-  
-  // Exclude node_modules for thin package
-  const thinPackagePatterns = [...ignorePatterns];
-  thinPackagePatterns.push('node_modules/**');
-  
-  await zipDirectory(cwd, tempZip, thinPackagePatterns);
+async function createFunctionPackage(
+  cwd: string,
+  tempZip: string,
+  useLayers: boolean,
+  useGitignore?: boolean
+): Promise<string> {
+  // Thin package when node_modules ships as a layer, full package otherwise
+  const files = listPackageFiles(cwd, functionPackageOptions(useLayers, useGitignore));
+  await zipFiles(cwd, files, tempZip);
   
   return tempZip;
 }
 
-interface VafConfig {
-  id: number;
-  name: string;
-  environments: {
-    [key: string]: {
-      runtime?: string;
-      memory?: number;
-      timeout?: number;
-      database?: string;
-      cache?: string;
-      storage?: string;
-      handler?: string;
-      useLayers?: boolean;
-      dockerfile?: string;
-      imageTag?: string;
-      build?: string[];
-      deploy?: string[];
-    };
-  };
+interface DeployContext {
+  projectId: string;
+  environmentId: string;
+  envName: string;
+  options: DeployOptions;
+}
+
+interface ServiceDeployment {
+  deploymentId?: string;
+  url?: string;
+}
+
+function serviceRuntime(context: DeployContext, target: ServiceTarget): string {
+  return context.options.runtime || target.config?.runtime || DEFAULT_RUNTIME;
 }
 
-function loadVafConfig(cwd: string): VafConfig | null {
-  const configFiles = ['vaf.yml'];
+/**
+ * Runs the build commands of one function from vaf.yml, or the package
+ * manager's build script. Docker images are built when they are pushed.
+ */
+async function buildService(context: DeployContext, target: ServiceTarget, log: DeployLog): Promise<void> {
+  const family = runtimeFamily(serviceRuntime(context, target));
+  if (context.options.build === false || family === 'docker') {
+    return;
+  }
+  const packageManager = family === 'nodejs' ? detectPackageManager(target.root, target.config?.packageManager) : undefined;
+  await runStage('build', () => runBuild(target.config?.build, packageManager, target.root, log));
+}
+
+/**
+ * Packages and deploys one function, built with `buildService`: a service,
+ * or the whole environment when it has no services.
+ */
+async function deployService(context: DeployContext, target: ServiceTarget, log: DeployLog): Promise<ServiceDeployment> {
+  const { projectId: finalProjectId, environmentId, envName: finalEnvName, options } = context;
+  const { root: cwd, config: envConfig } = target;
   
-  for (const configFile of configFiles) {
-    const filePath = path.join(cwd, configFile);
-    if (fs.existsSync(filePath)) {
-      try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        return yaml.load(content) as VafConfig;
-      } catch (error) {
-        utils.error(`Failed to parse ${configFile}: ${error}`);
-        return null;
+  const runtime = serviceRuntime(context, target);
+  const family = runtimeFamily(runtime);
+  const isDockerDeployment = family === 'docker';
+  const packageManager = family === 'nodejs' ? detectPackageManager(cwd, envConfig?.packageManager) : undefined;
+
+  // Handle Docker deployments
+  if (isDockerDeployment) {
+    log.info('🐳 Docker deployment detected');
+    
+    // Get ECR config
+    log.info('📦 Getting ECR configuration...');
+    const ecrConfig = await getEcrConfig(finalProjectId, environmentId);
+    
+    printProgress(chalk.cyan(`${log.prefix}  Repository: ${ecrConfig.ecrRepositoryUri}`));
+    printProgress(chalk.cyan(`${log.prefix}  Region: ${ecrConfig.region}`));
+    printProgress(chalk.cyan(`${log.prefix}  AWS Account: ${ecrConfig.awsAccountId}`));
+    
+    const dockerBuild = resolveDockerBuildOptions(cwd, finalEnvName, options, envConfig, log.prefix);
+    
+    // Build and push Docker image
+    const image = await runStage('upload', () => buildAndPushDockerImage(ecrConfig, dockerBuild, cwd, log.prefix));
+    
+    // Prepare deployment parameters, pinned to the digest so rollbacks redeploy the same image
+    const deploymentParams: DeployParams = {
+      runtime,
+      service: target.service,
+      imageUri: image.imageUri,
+    };
+    
+    // Add optional parameters
+    if (options.memory !== undefined) {
+      deploymentParams.memory = options.memory;
+    } else if (envConfig?.memory !== undefined) {
+      deploymentParams.memory = envConfig.memory;
+    }
+    
+    if (options.timeout !== undefined) {
+      deploymentParams.timeout = options.timeout;
+    } else if (envConfig?.timeout !== undefined) {
+      deploymentParams.timeout = envConfig.timeout;
+    }
+    
+    // Add database, cache, storage if specified
+    const dbValue = options.database || envConfig?.database;
+    if (dbValue && typeof dbValue === 'string' && dbValue.trim().length > 0) {
+      deploymentParams.database = dbValue;
+    }
+    
+    const cacheValue = options.cache || envConfig?.cache;
+    if (cacheValue && typeof cacheValue === 'string' && cacheValue.trim().length > 0) {
+      deploymentParams.cache = cacheValue;
+    }
+    
+    const storageValue = options.storage || envConfig?.storage;
+    if (storageValue && typeof storageValue === 'string' && storageValue.trim().length > 0) {
+      deploymentParams.storage = storageValue;
+    }
+    
+    // Remove undefined values
+    const cleanedParams: any = {};
+    Object.entries(deploymentParams).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        cleanedParams[key] = value;
       }
+    });
+    
+    log.info('Deployment parameters:');
+    JSON.stringify(cleanedParams, null, 2).split('\n').forEach((line) => printProgress(chalk.gray(`${log.prefix}${line}`)));
+    
+    // Trigger deployment
+    log.info('🚀 Deploying to Lambda...');
+    // Use a longer timeout for deployment operations
+    const deployment = await runStage('deploy', () => client.environments(finalProjectId).deploy(
+      environmentId,
+      cleanedParams,
+      { timeout: 900000 } // 15 minutes for Docker deployments
+    ));
+    
+    log.success(`Deployment initiated: ${deployment.id || 'Success'}`);
+    
+    // Poll for deployment status if we have an ID
+    if (!deployment.id) {
+      if (envConfig?.deploy?.length) {
+        log.warn('Deployment status unknown, skipping deploy hooks');
+      }
+      return {};
+    }
+    const result = await pollDeploymentStatus(finalProjectId, environmentId, String(deployment.id), log);
+    if (!result) {
+      throw new DeployError('deploy', `Deployment ${deployment.id} did not complete successfully`);
     }
+    if (envConfig?.deploy?.length) {
+      await runDeployHooks(envConfig.deploy, cwd, {
+        projectId: finalProjectId,
+        environmentId,
+        environmentName: finalEnvName,
+        service: target.service,
+        deploymentId: String(deployment.id),
+        url: result.url,
+      }, log);
+    }
+    return { deploymentId: String(deployment.id), url: result.url };
   }
   
-  return null;
+  // Zip-based deployment flow continues below
+  const timestamp = Date.now();
+  // Services deploy side by side and need their own package files
+  const filePrefix = target.service ? `${target.service}-` : '';
+  
+  // Determine if we should use layers (CLI option overrides YAML config, defaults to true)
+  let useLayers: boolean;
+  if (options.useLayers !== undefined) {
+    useLayers = options.useLayers;
+  } else {
+    useLayers = envConfig?.useLayers !== undefined ? envConfig.useLayers : true;
+  }
+  
+  const handler = options.handler || envConfig?.handler || (defaultHandler(runtime) as string);
+  let useBundle = options.bundle ?? envConfig?.bundle ?? false;
+  if (useBundle && family !== 'nodejs') {
+    log.warn(`Bundling is only supported for Node.js runtimes, packaging ${runtime} without it`);
+    useBundle = false;
+  }
+  
+  const profile = config.getProfileName();
+  const uploadTarget = (kind: UploadKind): UploadTarget => ({
+    profile,
+    environments: client.environments(finalProjectId),
+    environmentId,
+    service: target.service,
+    kind,
+  });
+  
+  // Interrupted uploads are only picked up with --resume, otherwise start over
+  const pendingLayer = options.resume ? findPendingUpload(uploadTarget('layer')) : undefined;
+  const pendingPackage = options.resume ? findPendingUpload(uploadTarget('package')) : undefined;
+  if (!options.resume) {
+    discardPendingUpload(uploadTarget('layer'));
+    discardPendingUpload(uploadTarget('package'));
+  } else if (!pendingLayer && !pendingPackage) {
+    log.warn('No interrupted upload to resume, packaging from scratch');
+  }
+  
+  const useGitignore = options.useGitignore ?? envConfig?.useGitignore;
+  // Packages, install and bundle from a copy so the checkout is left as it is
+  const staging = StagingDirectory.create();
+  const tempZip = staging.track(uploadFilePath(`${filePrefix}package-${timestamp}.zip`));
+  const packageZip = staging.track(pendingPackage ? pendingPackage.file : tempZip);
+  let bundle: BundleResult | undefined;
+  
+  try {
+    let layerArn: string | undefined;
+    
+    log.info('Staging project files...');
+    const copied = staging.copyProject(
+      cwd,
+      packageManager ? installFiles(packageManager, cwd) : PYTHON_DEPENDENCY_FILES,
+      useGitignore,
+      envConfig?.ignore
+    );
+    log.info(`Copied ${copied} files to ${staging.appDir}`);
+    if (packageManager) {
+      await runStage('build', () => staging.installDependencies(cwd, packageManager));
+    }
+    
+    if (useBundle) {
+      // Bundled even when resuming, the layer contents depend on what the bundle leaves out
+      log.info(`Bundling from ${handler}...`);
+      bundle = await runStage('build', () => bundleFunction(staging.appDir, {
+        handler,
+        runtime,
+        externals: envConfig?.externals,
+        includeExternals: !useLayers,
+      }));
+      bundle.warnings.forEach((warning) => log.warn(warning));
+      log.success(
+        `Bundled ${bundle.entryPoint} (${formatBytes(bundle.files.reduce((sum, file) => sum + file.size, 0))}), ` +
+        `${bundle.externalPackages.length} external packages`
+      );
+    }
+    
+    // With a bundle the layer only holds the externals, and no layer is needed without dependencies
+    const needsLayer = family === 'python'
+      ? hasPythonDependencies(staging.appDir)
+      : bundle ? bundle.externalPackages.length > 0 : staging.hasDependencies();
+    if (useLayers && needsLayer) {
+      // Reuse the last published layer when the dependencies haven't changed
+      const layerCache = new LayerCache();
+      log.info('Hashing dependencies...');
+      const dependencyHash = hashDependencies(staging.appDir, runtime, bundle?.externalPackages);
+      const cachedLayer = layerCache.get(profile, finalProjectId, environmentId, target.service);
+      
+      if (cachedLayer && cachedLayer.hash === dependencyHash && !options.rebuildLayer) {
+        layerArn = cachedLayer.layerArn;
+        log.success(`Dependencies unchanged, reusing layer ${cachedLayer.layerArn} (version ${cachedLayer.layerVersion})`);
+      } else {
+        let layerZip: string;
+        let resumeLayer = pendingLayer;
+        if (resumeLayer && resumeLayer.meta?.dependencyHash !== dependencyHash) {
+          log.warn('Dependencies changed since the interrupted upload, rebuilding the layer');
+          discardPendingUpload(uploadTarget('layer'));
+          resumeLayer = undefined;
+        }
+        
+        if (resumeLayer) {
+          layerZip = staging.track(resumeLayer.file);
+          log.info('Resuming layer upload...');
+        } else {
+          // Create and upload layer
+          log.info('Creating Lambda layer package...');
+          layerZip = await runStage('build', () => createLayerPackage(
+            staging,
+            staging.track(uploadFilePath(`${filePrefix}layer-${timestamp}.zip`)),
+            runtime,
+            bundle?.externalPackages
+          ));
+          
+          const layerStats = fs.statSync(layerZip);
+          log.info(`Layer package size: ${formatBytes(layerStats.size)}`);
+        }
+        
+        // Upload layer
+        log.info('Uploading layer...');
+        const layerKey = await runStage('upload', () =>
+          uploadPackage(uploadTarget('layer'), layerZip, 'Layer', resumeLayer, { dependencyHash })
+        );
+        
+        // Publish layer
+        log.info('Publishing Lambda layer...');
+        const layerResponse = await runStage('upload', () => client.environments(finalProjectId).publishLayer(
+          environmentId,
+          layerKey as string
+        ));
+        layerArn = layerResponse.layerArn;
+        log.success(`Layer published: ${layerResponse.layerArn} (version ${layerResponse.layerVersion})`);
+        
+        layerCache.set(profile, finalProjectId, environmentId, {
+          hash: dependencyHash,
+          layerArn: layerResponse.layerArn,
+          layerVersion: layerResponse.layerVersion,
+          publishedAt: new Date().toISOString(),
+        }, target.service);
+        
+        // Clean up layer zip
+        fs.unlinkSync(layerZip);
+      }
+    }
+    
+    if (family === 'python' && !useLayers && !pendingPackage && hasPythonDependencies(staging.appDir)) {
+      // Without a layer, dependencies are installed next to the code
+      log.info('Installing Python dependencies...');
+      const dependenciesDir = staging.path('python');
+      await runStage('build', () => installPythonDependencies(staging.appDir, dependenciesDir, runtime));
+      fs.cpSync(dependenciesDir, staging.appDir, { recursive: true, verbatimSymlinks: true });
+    }
+    staging.removeInstallFiles();
+    
+    if (pendingPackage) {
+      log.info('Resuming package upload...');
+    } else if (bundle) {
+      log.info('Creating deployment package from the bundle...');
+      const { outDir, files } = bundle;
+      await runStage('build', () => zipFiles(outDir, files, tempZip));
+    } else {
+      // Create function package (thin if using layers, full otherwise)
+      log.info('Creating deployment package...');
+      await runStage('build', () => createFunctionPackage(staging.appDir, tempZip, useLayers, useGitignore));
+    }
+
+    const stats = fs.statSync(packageZip);
+    log.info(`Package size: ${formatBytes(stats.size)}`);
+
+    log.info('Uploading package...');
+    const uploadedKey = await runStage('upload', () =>
+      uploadPackage(uploadTarget('package'), packageZip, 'Package', pendingPackage)
+    );
+
+    // Get the deployment key from the upload URL response
+    const deploymentKey = uploadedKey || `deployments/${timestamp}-package.zip`;
+
+    log.info('Triggering deployment...');
+    
+    // Prepare deployment parameters
+    // Use YAML config values, allow CLI options to override
+    const deploymentParams: DeployParams = {
+      deploymentKey,
+      runtime,
+      service: target.service,
+      handler,
+    };
+
+    // Add optional parameters (CLI options override YAML config)
+    if (options.memory !== undefined) {
+      deploymentParams.memory = options.memory;
+    } else if (envConfig?.memory !== undefined) {
+      deploymentParams.memory = envConfig.memory;
+    }
+    
+    if (options.timeout !== undefined) {
+      deploymentParams.timeout = options.timeout;
+    } else if (envConfig?.timeout !== undefined) {
+      deploymentParams.timeout = envConfig.timeout;
+    }
+    
+    // Only add database, cache, storage if they have non-empty string values
+    const dbValue = options.database || envConfig?.database;
+    if (dbValue && typeof dbValue === 'string' && dbValue.trim().length > 0) {
+      deploymentParams.database = dbValue;
+    }
+    
+    const cacheValue = options.cache || envConfig?.cache;
+    if (cacheValue && typeof cacheValue === 'string' && cacheValue.trim().length > 0) {
+      deploymentParams.cache = cacheValue;
+    }
+    
+    const storageValue = options.storage || envConfig?.storage;
+    if (storageValue && typeof storageValue === 'string' && storageValue.trim().length > 0) {
+      deploymentParams.storage = storageValue;
+    }
+    
+    // Add layers if using layers
+    if (useLayers && layerArn) {
+      deploymentParams.layers = [layerArn];
+    }
+
+    // Remove undefined values to avoid validation errors
+    const cleanedParams: any = {};
+    Object.entries(deploymentParams).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        cleanedParams[key] = value;
+      }
+    });
+
+    log.info('Deployment parameters:');
+    JSON.stringify(cleanedParams, null, 2).split('\n').forEach((line) => printProgress(chalk.gray(`${log.prefix}${line}`)));
+
+    // Trigger deployment
+    const deployment = await runStage('deploy', () => client.environments(finalProjectId).deploy(
+      environmentId,
+      cleanedParams,
+      { timeout: 600000 } // 10 minutes for zip deployments
+    ));
+
+    log.success(`Deployment initiated: ${deployment.id || 'Success'}`);
+
+    // Poll for deployment status if we have an ID
+    if (!deployment.id) {
+      if (envConfig?.deploy?.length) {
+        log.warn('Deployment status unknown, skipping deploy hooks');
+      }
+      return {};
+    }
+    const result = await pollDeploymentStatus(finalProjectId, environmentId, String(deployment.id), log);
+    if (!result) {
+      throw new DeployError('deploy', `Deployment ${deployment.id} did not complete successfully`);
+    }
+    if (envConfig?.deploy?.length) {
+      await runDeployHooks(envConfig.deploy, cwd, {
+        projectId: finalProjectId,
+        environmentId,
+        environmentName: finalEnvName,
+        service: target.service,
+        deploymentId: String(deployment.id),
+        url: result.url,
+      }, log);
+    }
+    return { deploymentId: String(deployment.id), url: result.url };
+  } finally {
+    // Also removes the packages, unless they're kept for --resume
+    staging.cleanup();
+  }
+}
+
+interface ServiceResult {
+  service: string;
+  status: 'success' | 'failed';
+  deploymentId?: string;
+  url?: string;
+  seconds: number;
+  error?: string;
+  exitCode?: number;
+}
+
+/**
+ * Deploys the services of an environment. The environment's own build
+ * commands run first, then the services' builds one at a time, and then
+ * the services are packaged and deployed side by side. The environment's
+ * deploy hooks run once all of them succeeded. Prints a summary and fails
+ * when any service did.
+ */
+async function deployServices(
+  context: DeployContext,
+  envConfig: EnvironmentConfig | undefined,
+  projectRoot: string,
+  targets: ServiceTarget[]
+): Promise<void> {
+  if (context.options.build !== false && envConfig?.build) {
+    // Without a package manager there's no fallback to a build script, services run their own
+    await runStage('build', () => runBuild(envConfig.build, undefined, projectRoot));
+  }
+
+  const names = targets.map((target) => target.service as string);
+  utils.info(`Deploying ${names.length === 1 ? 'service' : `${names.length} services`}: ${names.join(', ')}`);
+  // Prefix output only when it interleaves with other services
+  const logFor = (target: ServiceTarget) => deployLog(targets.length > 1 ? target.service : undefined);
+
+  // Services sharing a root would run the same build side by side, so builds
+  // run one at a time, and a root's package manager build script only once
+  const buildTimes = new Map<ServiceTarget, number>();
+  const buildErrors = new Map<ServiceTarget, unknown>();
+  const scriptBuilds = new Map<string, unknown>();
+  for (const target of targets) {
+    const startedAt = Date.now();
+    const scriptBuild = !target.config.build && runtimeFamily(serviceRuntime(context, target)) === 'nodejs';
+    try {
+      if (scriptBuild && scriptBuilds.has(target.root)) {
+        const error = scriptBuilds.get(target.root);
+        if (error) {
+          throw error;
+        }
+        continue;
+      }
+      await buildService(context, target, logFor(target));
+      if (scriptBuild) {
+        scriptBuilds.set(target.root, null);
+      }
+    } catch (error) {
+      if (scriptBuild) {
+        scriptBuilds.set(target.root, error);
+      }
+      buildErrors.set(target, error);
+    } finally {
+      buildTimes.set(target, Date.now() - startedAt);
+    }
+  }
+
+  setProgressBars(targets.length === 1);
+  const results = await Promise.all(targets.map(async (target): Promise<ServiceResult> => {
+    const service = target.service as string;
+    const startedAt = Date.now() - (buildTimes.get(target) || 0);
+    const log = logFor(target);
+    const seconds = () => Math.round((Date.now() - startedAt) / 1000);
+    try {
+      if (buildErrors.has(target)) {
+        throw buildErrors.get(target);
+      }
+      const deployment = await deployService(context, target, log);
+      return { service, status: 'success', ...deployment, seconds: seconds() };
+    } catch (error: any) {
+      log.error(error.message || 'Failed to deploy');
+      return { service, status: 'failed', seconds: seconds(), error: error.message, exitCode: exitCodeFor(error) };
+    }
+  }));
+
+  if (!isStructured()) {
+    console.log(chalk.bold('\nDeployment summary:'));
+  }
+  printList(results, [
+    { header: 'Service', value: (result) => result.service },
+    { header: 'Status', value: (result) => result.status, colour: (text, result) => result.status === 'success' ? chalk.green(text) : chalk.red(text) },
+    { header: 'Deployment', value: (result) => result.deploymentId || '-' },
+    { header: 'Time', value: (result) => `${result.seconds}s` },
+    { header: 'Result', value: (result) => result.error || result.url || '' },
+  ], 'No services deployed.');
+
+  const failed = results.filter((result) => result.status === 'failed');
+  if (failed.length > 0) {
+    const servicesError: any = new Error(`${failed.length} of ${results.length} services failed: ${failed.map((result) => result.service).join(', ')}`);
+    // The first failure decides the exit code, like a deploy of a single function
+    servicesError.exitCode = failed[0].exitCode;
+    throw servicesError;
+  }
+
+  if (envConfig?.deploy?.length) {
+    await runDeployHooks(envConfig.deploy, projectRoot, {
+      projectId: context.projectId,
+      environmentId: context.environmentId,
+      environmentName: context.envName,
+    });
+  }
 }
 
 const deployCommand = new Command('deploy')
   .description('Deploy application to an environment')
   .argument('[project-id]', 'Project ID (can be in vaf.yml)')
-  .argument('[env-name]', 'Environment name (can be in vaf.yml)')
+  .argument('[env-name]', 'Environment name (default: the current environment)')
   .option('--memory <mb>', 'Memory in MB', parseInt)
   .option('--timeout <seconds>', 'Timeout in seconds', parseInt)
   .option('--database <name>', 'Database name')
@@ -210,476 +814,62 @@ const deployCommand = new Command('deploy')
   .option('--storage <name>', 'Storage name')
   .option('--runtime <runtime>', 'Runtime (e.g., nodejs18.x, docker)')
   .option('--handler <handler>', 'Handler function (e.g., index.handler)')
-  .option('--dockerfile <path>', 'Path to Dockerfile (for docker runtime)', './Dockerfile')
-  .option('--image-tag <tag>', 'Docker image tag', 'latest')
+  .option('--dockerfile <path>', 'Path to Dockerfile (for docker runtime, default: ./Dockerfile)')
+  .option('--image-tag <tag>', 'Docker image tag (default: git SHA plus a hash of the build context)')
+  .option('--context <dir>', 'Docker build context directory (default: .)')
+  .option('--target <stage>', 'Docker build stage to target')
+  .option('--platform <platform>', `Docker build platform (default: ${DEFAULT_PLATFORM}, use linux/arm64 for arm64 functions)`)
+  .option('--build-arg <KEY=VALUE>', 'Docker build argument (repeatable)', collect, [])
+  .option('--secret <spec>', 'Docker build secret, e.g. id=npmrc,src=.npmrc (repeatable)', collect, [])
+  .option('--label <KEY=VALUE>', 'Docker image label (repeatable)', collect, [])
+  .option('--cache-from <ref>', 'Docker build cache source (image reference or buildx cache spec)')
+  .option('--cache-to <ref>', 'Docker build cache destination (image reference or buildx cache spec)')
   .option('--watch', 'Watch for changes and auto-deploy')
   .option('--no-build', 'Skip running build commands from YAML')
   .option('--use-layers', 'Use Lambda layers for large node_modules (default: true)')
   .option('--no-use-layers', 'Disable Lambda layers, include node_modules in package')
-  .action(async (projectId, envName, options: DeployOptions & { 'no-use-layers'?: boolean }) => {
+  .option('--rebuild-layer', 'Publish a new dependency layer even if dependencies are unchanged')
+  .option('--resume', 'Finish an interrupted upload from the last deploy instead of re-packaging')
+  .option('--use-gitignore', 'Also exclude files matched by .gitignore')
+  .option('--bundle', 'Bundle from the handler entry point with esbuild')
+  .option('--no-bundle', 'Package the project directory as is')
+  .option('--service <name>', 'Deploy only this service from the environment\'s services in vaf.yml')
+  .action(async (projectId, envName, options: DeployOptions) => {
     try {
       if (!config.getToken()) {
         utils.error('Not authenticated. Please run "vaf login"');
         process.exit(1);
       }
 
+      // Deploy from the directory of the nearest vaf.yml, even when run in a subdirectory
+      const cwd = findProjectRoot(process.cwd()) || process.cwd();
+
       const deploy = async () => {
-        const cwd = process.cwd();
-        
         // Load YAML configuration
         const vafConfig = loadVafConfig(cwd);
         
         // Determine project ID and environment name
-        let finalProjectId = projectId;
-        let finalEnvName = envName;
-        
-        if (vafConfig) {
-          // If YAML has an ID, treat the first argument as environment name
-          if (vafConfig.id) {
-            finalProjectId = vafConfig.id.toString();
-            // If only one argument provided
-            if (!envName && projectId) {
-              // Check if it's a valid environment name
-              if (projectId in vafConfig.environments) {
-                finalEnvName = projectId; // Treat the first arg as environment name
-              } else {
-                // First arg is not a valid environment name
-                utils.error(`Environment "${projectId}" not found in vaf.yml`);
-                utils.info('Available environments:');
-                Object.keys(vafConfig.environments).forEach(env => {
-                  console.log(chalk.cyan(`  - ${env}`));
-                });
-                process.exit(1);
-              }
-            }
-          } else if (!finalProjectId) {
-            // No ID in YAML and no project ID provided
-            utils.error('Project ID is required');
-            utils.info('Either provide it as the first argument or add it to vaf.yml');
-            process.exit(1);
-          }
-        }
-        
-        // Validate we have both project ID and environment name
-        if (!finalProjectId) {
-          utils.error('Project ID is required');
-          utils.info('Either provide it as the first argument or add it to vaf.yml');
-          process.exit(1);
-        }
-        
-        if (!finalEnvName) {
-          utils.error('Environment name is required');
-          if (vafConfig && Object.keys(vafConfig.environments).length > 0) {
-            console.log(chalk.gray('Available environments:'));
-            Object.keys(vafConfig.environments).forEach(env => {
-              console.log(chalk.cyan(`  - ${env}`));
-            });
-          }
-          process.exit(1);
-        }
-        
-        // Get environment configuration from YAML if available
-        const envConfig = vafConfig?.environments[finalEnvName];
-        
-        if (!envConfig && vafConfig) {
-          utils.error(`Environment "${finalEnvName}" not found in vaf.yml`);
-          utils.info('Available environments:');
-          Object.keys(vafConfig.environments).forEach(env => {
-            console.log(chalk.cyan(`  - ${env}`));
-          });
-          process.exit(1);
-        }
+        const {
+          projectId: finalProjectId,
+          envName: finalEnvName,
+          envConfig,
+        } = resolveProjectTarget(vafConfig, projectId, envName);
+        const targets = resolveServiceTargets(envConfig, cwd, options.service);
         
-        // Determine runtime
-        const runtime = options.runtime || envConfig?.runtime || 'nodejs18.x';
-        const isDockerDeployment = runtime === 'docker';
+        // Resolve environment name, ID or alias to the ID
+        utils.info('Resolving environment...');
+        const { id: environmentId } = await resolveEnvironment(
+          client.environments(finalProjectId),
+          finalEnvName,
+          vafConfig
+        );
+        const context: DeployContext = { projectId: finalProjectId, environmentId, envName: finalEnvName, options };
         
-        // Run build commands from YAML (skip for Docker deployments)
-        const skipBuild = options['no-build'] || isDockerDeployment;
-        if (envConfig?.build && !skipBuild) {
-          utils.info('Running build commands...');
-          for (const buildCmd of envConfig.build) {
-            try {
-              utils.info(`Running: ${buildCmd}`);
-              await execAsync(buildCmd, { cwd });
-            } catch (error: any) {
-              utils.warn(`Build command failed: ${buildCmd}`);
-            }
-          }
-          utils.success('Build commands completed');
+        if (targets[0].service) {
+          await deployServices(context, envConfig, cwd, targets);
         } else {
-          // Fallback to npm run build
-          utils.info('Building application...');
-          try {
-            const { stdout, stderr } = await execAsync('npm run build', { cwd });
-            if (stderr) console.error(stderr);
-            utils.success('Build completed');
-          } catch (error: any) {
-            utils.warn('Build command failed, continuing with current directory...');
-          }
-        }
-
-        // Install production dependencies
-        utils.info('Installing production dependencies...');
-        try {
-          await execAsync('npm ci --omit=dev', { cwd });
-          utils.success('Dependencies installed');
-        } catch (error: any) {
-          // If npm ci fails, try npm install --production
-          try {
-            await execAsync('npm install --production --no-audit --no-fund', { cwd });
-            utils.success('Dependencies installed');
-          } catch (fallbackError: any) {
-            utils.warn('Failed to install production dependencies, using existing node_modules...');
-          }
-        }
-
-        // Handle Docker deployments
-        if (isDockerDeployment) {
-          utils.info('\n🐳 Docker deployment detected');
-          
-          // Resolve environment
-          let environmentId = finalEnvName;
-          utils.info('Resolving environment...');
-          const environments = await api.get<any[]>(
-            `/api/projects/${finalProjectId}/environments`
-          );
-          
-          const environment = environments.find(
-            (env: any) => env.name === finalEnvName || env.id === finalEnvName
-          );
-          
-          if (environment) {
-            environmentId = environment.id;
-          }
-          
-          // Get ECR config
-          utils.info('📦 Getting ECR configuration...');
-          const ecrConfig = await getEcrConfig(finalProjectId, environmentId);
-          
-          console.log(chalk.cyan(`  Repository: ${ecrConfig.ecrRepositoryUri}`));
-          console.log(chalk.cyan(`  Region: ${ecrConfig.region}`));
-          console.log(chalk.cyan(`  AWS Account: ${ecrConfig.awsAccountId}`));
-          
-          // Determine Dockerfile path with priority: CLI option > YAML config > env-specific > default
-          let dockerfile: string;
-          if (options.dockerfile) {
-            // Highest priority: CLI option
-            dockerfile = options.dockerfile;
-          } else if (envConfig?.dockerfile) {
-            // Second priority: YAML config
-            dockerfile = envConfig.dockerfile;
-          } else {
-            // Third priority: environment-specific Dockerfile
-            const envDockerfile = path.join(cwd, `${finalEnvName}.Dockerfile`);
-            if (fs.existsSync(envDockerfile)) {
-              dockerfile = envDockerfile;
-              utils.info(`Using environment-specific Dockerfile: ${finalEnvName}.Dockerfile`);
-            } else {
-              // Fallback: default Dockerfile
-              dockerfile = './Dockerfile';
-            }
-          }
-          
-          // Build and push Docker image
-          const imageTag = options['image-tag'] || envConfig?.imageTag || 'latest';
-          const imageUri = await buildAndPushDockerImage(ecrConfig, imageTag, dockerfile);
-          
-          // Prepare deployment parameters
-          const deploymentParams: any = {
-            runtime,
-            imageUri,
-          };
-          
-          // Add optional parameters
-          if (options.memory !== undefined) {
-            deploymentParams.memory = options.memory;
-          } else if (envConfig?.memory !== undefined) {
-            deploymentParams.memory = envConfig.memory;
-          }
-          
-          if (options.timeout !== undefined) {
-            deploymentParams.timeout = options.timeout;
-          } else if (envConfig?.timeout !== undefined) {
-            deploymentParams.timeout = envConfig.timeout;
-          }
-          
-          // Add database, cache, storage if specified
-          const dbValue = options.database || envConfig?.database;
-          if (dbValue && typeof dbValue === 'string' && dbValue.trim().length > 0) {
-            deploymentParams.database = dbValue;
-          }
-          
-          const cacheValue = options.cache || envConfig?.cache;
-          if (cacheValue && typeof cacheValue === 'string' && cacheValue.trim().length > 0) {
-            deploymentParams.cache = cacheValue;
-          }
-          
-          const storageValue = options.storage || envConfig?.storage;
-          if (storageValue && typeof storageValue === 'string' && storageValue.trim().length > 0) {
-            deploymentParams.storage = storageValue;
-          }
-          
-          // Remove undefined values
-          const cleanedParams: any = {};
-          Object.keys(deploymentParams).forEach(key => {
-            if (deploymentParams[key] !== undefined && deploymentParams[key] !== null) {
-              cleanedParams[key] = deploymentParams[key];
-            }
-          });
-          
-          utils.info('Deployment parameters:');
-          console.log(chalk.gray(JSON.stringify(cleanedParams, null, 2)));
-          
-          // Trigger deployment
-          utils.info('🚀 Deploying to Lambda...');
-          const deployUrl = `/api/projects/${finalProjectId}/environments/${environmentId}/deployment/deploy`;
-          // Use a longer timeout for deployment operations
-          const deployment = await api.post<any>(
-            deployUrl,
-            cleanedParams,
-            { timeout: 900000 } // 15 minutes for Docker deployments
-          );
-          
-          utils.success(`Deployment initiated: ${deployment.id || 'Success'}`);
-          
-          // Poll for deployment status if we have an ID
-          if (deployment.id) {
-            await pollDeploymentStatus(finalProjectId, environmentId, deployment.id);
-          }
-          
-          return;
-        }
-        
-        // Zip-based deployment flow continues below
-        // Read ignore patterns
-        const ignorePatterns = await readVafIgnore(cwd);
-        
-        // Create temp zip file with timestamp
-        const timestamp = Date.now();
-        const tempZip = path.join(cwd, `.vaf-deploy-temp-${timestamp}.zip`);
-        
-        // Determine if we should use layers (CLI option overrides YAML config, defaults to true)
-        let useLayers: boolean;
-        if (options['no-use-layers']) {
-          useLayers = false;
-        } else if (options['use-layers'] !== undefined) {
-          useLayers = options['use-layers'];
-        } else {
-          useLayers = envConfig?.useLayers !== undefined ? envConfig.useLayers : true;
-        }
-        
-        try {
-          let layerArn: string | undefined;
-          
-          if (useLayers) {
-            // Create and upload layer
-            utils.info('Creating Lambda layer package...');
-            const layerZip = await createLayerPackage(cwd);
-            
-            const layerStats = fs.statSync(layerZip);
-            utils.info(`Layer package size: ${formatBytes(layerStats.size)}`);
-            
-            // Resolve environment for layer upload
-            utils.info('Resolving environment...');
-            const environments = await api.get<any[]>(
-              `/api/projects/${finalProjectId}/environments`
-            );
-            
-            let environmentId = finalEnvName;
-            const environment = environments.find(
-              (env: any) => env.name === finalEnvName || env.id === finalEnvName
-            );
-            
-            if (environment) {
-              environmentId = environment.id;
-            }
-            
-            // Get upload URL for layer
-            utils.info('Getting upload URL for layer...');
-            const layerUploadUrlResponse = await api.get<{ uploadUrl: string; key: string }>(
-              `/api/projects/${finalProjectId}/environments/${environmentId}/deployment/upload-url`
-            );
-            
-            // Upload layer
-            utils.info('Uploading layer...');
-            const layerFileBuffer = fs.readFileSync(layerZip);
-            await axios.put(layerUploadUrlResponse.uploadUrl, layerFileBuffer, {
-              headers: { 'Content-Type': 'application/zip' },
-              timeout: 600000, // 10 minutes for large layer uploads
-            });
-            utils.success('Layer uploaded successfully');
-            
-            // Publish layer
-            utils.info('Publishing Lambda layer...');
-            const layerResponse = await api.post<LayerResponse>(
-              `/api/projects/${finalProjectId}/environments/${environmentId}/deployment/layer`,
-              { layerKey: layerUploadUrlResponse.key }
-            );
-            layerArn = layerResponse.layerArn;
-            utils.success(`Layer published: ${layerResponse.layerArn} (version ${layerResponse.layerVersion})`);
-            
-            // Clean up layer zip
-            fs.unlinkSync(layerZip);
-          }
-          
-          // Create function package (thin if using layers, full otherwise)
-          utils.info('Creating deployment package...');
-          if (useLayers) {
-            await createThinPackage(cwd, tempZip);
-          } else {
-            const filteredIgnorePatterns = ignorePatterns.filter(
-              pattern => !pattern.includes('node_modules')
-            );
-            await zipDirectory(cwd, tempZip, filteredIgnorePatterns);
-          }
-
-          const stats = fs.statSync(tempZip);
-          utils.info(`Package size: ${formatBytes(stats.size)}`);
-
-          // Resolve environment name to ID (if not already resolved for layer)
-          let environmentId = finalEnvName;
-          if (!useLayers) {
-            utils.info('Resolving environment...');
-            const environments = await api.get<any[]>(
-              `/api/projects/${finalProjectId}/environments`
-            );
-            
-            // Find environment by name (first try name, then use as ID)
-            const environment = environments.find(
-              (env: any) => env.name === finalEnvName || env.id === finalEnvName
-            );
-            
-            if (environment) {
-              environmentId = environment.id;
-            } else {
-              // Try to use finalEnvName as ID if no match by name
-              const envById = environments.find((env: any) => env.id === finalEnvName);
-              if (!envById) {
-                utils.error(`Environment "${finalEnvName}" not found`);
-                console.log(chalk.gray('Available environments:'));
-                environments.forEach((env: any) => {
-                  console.log(chalk.cyan(`  - ${env.name} (${env.id})`));
-                });
-                process.exit(1);
-              }
-            }
-          } else {
-            // Environment already resolved in layer upload, get it from there
-            const environments = await api.get<any[]>(
-              `/api/projects/${finalProjectId}/environments`
-            );
-            
-            const environment = environments.find(
-              (env: any) => env.name === finalEnvName || env.id === finalEnvName
-            );
-            
-            if (environment) {
-              environmentId = environment.id;
-            }
-          }
-
-          utils.info('Getting upload URL...');
-          const uploadUrlResponse = await api.get<{ uploadUrl: string; key?: string; bucket?: string }>(
-            `/api/projects/${finalProjectId}/environments/${environmentId}/deployment/upload-url`
-          );
-
-          // Get the deployment key from the upload URL response
-          const deploymentKey = uploadUrlResponse.key || `deployments/${timestamp}-package.zip`;
-          
-          if (uploadUrlResponse.key) {
-            utils.info(`Upload destination: ${uploadUrlResponse.key}`);
-          }
-
-          utils.info('Uploading package...');
-          // Upload the zip file using the signed URL
-          const fileBuffer = fs.readFileSync(tempZip);
-          try {
-            await axios.put(uploadUrlResponse.uploadUrl, fileBuffer, {
-              headers: {
-                'Content-Type': 'application/zip',
-              },
-              timeout: 600000, // 10 minutes for large file uploads
-            });
-            utils.success('Package uploaded successfully');
-          } catch (uploadError: any) {
-            utils.error(`Failed to upload package: ${uploadError.message}`);
-            throw uploadError;
-          }
-
-          utils.info('Triggering deployment...');
-          
-          // Prepare deployment parameters
-          // Use YAML config values, allow CLI options to override
-          const deploymentParams: any = {
-            deploymentKey,
-            runtime: options.runtime || envConfig?.runtime || 'nodejs18.x',
-            handler: options.handler || envConfig?.handler || 'index.handler',
-          };
-
-          // Add optional parameters (CLI options override YAML config)
-          if (options.memory !== undefined) {
-            deploymentParams.memory = options.memory;
-          } else if (envConfig?.memory !== undefined) {
-            deploymentParams.memory = envConfig.memory;
-          }
-          
-          if (options.timeout !== undefined) {
-            deploymentParams.timeout = options.timeout;
-          } else if (envConfig?.timeout !== undefined) {
-            deploymentParams.timeout = envConfig.timeout;
-          }
-          
-          // Only add database, cache, storage if they have non-empty string values
-          const dbValue = options.database || envConfig?.database;
-          if (dbValue && typeof dbValue === 'string' && dbValue.trim().length > 0) {
-            deploymentParams.database = dbValue;
-          }
-          
-          const cacheValue = options.cache || envConfig?.cache;
-          if (cacheValue && typeof cacheValue === 'string' && cacheValue.trim().length > 0) {
-            deploymentParams.cache = cacheValue;
-          }
-          
-          const storageValue = options.storage || envConfig?.storage;
-          if (storageValue && typeof storageValue === 'string' && storageValue.trim().length > 0) {
-            deploymentParams.storage = storageValue;
-          }
-          
-          // Add layers if using layers
-          if (useLayers && layerArn) {
-            deploymentParams.layers = [layerArn];
-          }
-
-          // Remove undefined values to avoid validation errors
-          const cleanedParams: any = {};
-          Object.keys(deploymentParams).forEach(key => {
-            if (deploymentParams[key] !== undefined && deploymentParams[key] !== null) {
-              cleanedParams[key] = deploymentParams[key];
-            }
-          });
-
-          utils.info('Deployment parameters:');
-          console.log(chalk.gray(JSON.stringify(cleanedParams, null, 2)));
-
-          // Trigger deployment
-          const deployment = await api.post<any>(
-            `/api/projects/${finalProjectId}/environments/${environmentId}/deployment/deploy`,
-            cleanedParams,
-            { timeout: 600000 } // 10 minutes for zip deployments
-          );
-
-          utils.success(`Deployment initiated: ${deployment.id || 'Success'}`);
-
-          // Poll for deployment status if we have an ID
-          if (deployment.id) {
-            await pollDeploymentStatus(finalProjectId, environmentId, deployment.id);
-          }
-        } finally {
-          // Clean up temp file
-          if (fs.existsSync(tempZip)) {
-            fs.unlinkSync(tempZip);
-          }
+          await buildService(context, targets[0], deployLog());
+          await deployService(context, targets[0], deployLog());
         }
       };
 
@@ -687,6 +877,7 @@ const deployCommand = new Command('deploy')
         utils.info('Watching for changes...');
         
         const watcher = chokidar.watch('.', {
+          cwd,
           ignored: /(^|[\/\\])\../, // ignore hidden files
           persistent: true,
         });
@@ -694,8 +885,8 @@ const deployCommand = new Command('deploy')
         let deployTimer: NodeJS.Timeout;
         
         watcher.on('all', async (event, filePath) => {
-          // Skip if it's the temp zip file or hidden files
-          if (filePath.includes('.vaf-deploy-temp-') || filePath.startsWith('.')) {
+          // Skip hidden files
+          if (filePath.startsWith('.')) {
             return;
           }
 
@@ -707,6 +898,10 @@ const deployCommand = new Command('deploy')
               await deploy();
             } catch (error: any) {
               utils.error(error.message || 'Deployment failed');
+              // Every later deploy would fail the same way
+              if (exitCodeFor(error) === utils.EXIT_CODES.SESSION_EXPIRED) {
+                process.exit(utils.EXIT_CODES.SESSION_EXPIRED);
+              }
             }
           }, 2000);
         });
@@ -715,58 +910,65 @@ const deployCommand = new Command('deploy')
       }
     } catch (error: any) {
       utils.error(error.message || 'Failed to deploy');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
-async function pollDeploymentStatus(
+/**
+ * Polls a deployment until it settles. Resolves with the deployment when it
+ * succeeded, or null when it failed, timed out or could not be checked.
+ */
+export async function pollDeploymentStatus(
   projectId: string,
   envId: string,
-  deploymentId: string
-): Promise<void> {
+  deploymentId: string,
+  log: DeployLog = deployLog()
+): Promise<Deployment | null> {
   let attempts = 0;
   const maxAttempts = 60; // 5 minutes max
 
   while (attempts < maxAttempts) {
     try {
-      const deployment = await api.get<any>(
-        `/api/projects/${projectId}/environments/${envId}/deployment/${deploymentId}`
-      );
+      const deployment = await client.environments(projectId).deployment(envId, deploymentId);
 
-      console.log(chalk.blue(`Status: ${deployment.status}`));
+      printProgress(chalk.blue(`${log.prefix}Status: ${deployment.status}`));
 
       if (deployment.status === 'success') {
-        utils.success('Deployment completed successfully!');
+        log.success('Deployment completed successfully!');
         if (deployment.url) {
-          console.log(chalk.green(`URL: ${deployment.url}`));
+          printProgress(chalk.green(`${log.prefix}URL: ${deployment.url}`));
         }
-        return;
+        return deployment;
       }
 
       if (deployment.status === 'failed') {
-        utils.error('Deployment failed');
+        log.error('Deployment failed');
         if (deployment.logs) {
-          console.log(chalk.red('Logs:'));
-          console.log(deployment.logs);
+          printProgress(chalk.red(`${log.prefix}Logs:`));
+          deployment.logs.split('\n').forEach((line: string) => printProgress(`${log.prefix}${line}`));
         }
-        return;
+        return null;
       }
 
       // Show logs if available
       if (deployment.logs) {
         const lines = deployment.logs.split('\n');
-        lines.slice(-5).forEach((line: string) => console.log(line));
+        lines.slice(-5).forEach((line: string) => printProgress(`${log.prefix}${line}`));
       }
 
       await new Promise((resolve) => setTimeout(resolve, 5000));
       attempts++;
     } catch (error: any) {
-      utils.error(error.message || 'Failed to check deployment status');
-      return;
+      if (error instanceof SessionExpiredError) {
+        throw error;
+      }
+      log.error(error.message || 'Failed to check deployment status');
+      return null;
     }
   }
 
-  utils.warn('Deployment is taking longer than expected...');
+  log.warn('Deployment is taking longer than expected...');
+  return null;
 }
 
 export default deployCommand;
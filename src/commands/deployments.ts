@@ -0,0 +1,207 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { DeployParams, Deployment, VafClient } from '../sdk';
+import { ConfigManager } from '../config';
+import { resolveCommandTarget } from '../project';
+import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { isStructured, printDetails, printList, printProgress } from '../output';
+import { resolveEnvironmentId } from '../environments';
+import { getDeploymentParams, newestFirst, rollbackTarget } from '../deployments';
+import { pollDeploymentStatus } from './deploy';
+
+const client = new VafClient();
+const config = ConfigManager.getInstance();
+
+function formatStatus(status: string): string {
+  return status === 'success' ? chalk.green(status) :
+    status === 'failed' ? chalk.red(status) :
+    status === 'rolled_back' ? chalk.gray(status) : chalk.yellow(status);
+}
+
+const deploymentsCommand = new Command('deployments')
+  .description('Inspect and roll back deployments');
+
+deploymentsCommand
+  .command('list')
+  .alias('ls')
+  .description('List deployments for an environment')
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .argument('[env-name]', 'Environment name, ID or vaf.yml alias (default: the current environment)')
+  .option('--limit <count>', 'Maximum number of deployments to show', parseInt, 10)
+  .action(async (projectArg, envArg, options) => {
+    try {
+      if (!config.getToken()) {
+        utils.error('Not authenticated. Please run "vaf login"');
+        process.exit(1);
+      }
+
+      const { projectId, envName } = resolveCommandTarget([projectArg, envArg], { env: true });
+      const environmentId = await resolveEnvironmentId(client.environments(projectId), envName);
+
+      utils.info('Fetching deployments...');
+      const deployments = newestFirst(await client.environments(projectId).deployments(environmentId));
+
+      printList(deployments.slice(0, options.limit), [
+        { header: 'ID', value: (deployment) => deployment.id, colour: (text) => chalk.cyan(text) },
+        { header: 'Status', value: (deployment) => deployment.status, colour: (text) => formatStatus(text) },
+        {
+          header: 'Artifact',
+          value: (deployment) => {
+            const params = getDeploymentParams(deployment);
+            return params.imageUri || params.deploymentKey || 'N/A';
+          },
+        },
+        { header: 'Created', value: (deployment) => utils.formatDate(deployment.createdAt) },
+      ], 'No deployments found.');
+    } catch (error: any) {
+      utils.error(error.message || 'Failed to list deployments');
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+deploymentsCommand
+  .command('show')
+  .description('Show deployment details and logs')
+  .usage('[options] [project-id] [env-name] <deployment-id>')
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .argument('[env-name]', 'Environment name, ID or vaf.yml alias (default: the current environment)')
+  .argument('[deployment-id]', 'Deployment ID')
+  .action(async (...args) => {
+    try {
+      if (!config.getToken()) {
+        utils.error('Not authenticated. Please run "vaf login"');
+        process.exit(1);
+      }
+
+      const { projectId, envName, args: [deploymentId] } = resolveCommandTarget(args.slice(0, 3), { env: true, required: 1 });
+      const environmentId = await resolveEnvironmentId(client.environments(projectId), envName);
+
+      utils.info('Fetching deployment...');
+      const deployment = await client.environments(projectId).deployment(environmentId, deploymentId);
+
+      printDetails(deployment, 'Deployment Details', [
+        { header: 'ID', value: (d) => d.id },
+        { header: 'Status', value: (d) => d.status, colour: (text) => formatStatus(text) },
+        { header: 'URL', value: (d) => d.url },
+        { header: 'Created', value: (d) => utils.formatDate(d.createdAt) },
+      ]);
+      if (isStructured()) {
+        return;
+      }
+
+      console.log(chalk.bold('Parameters:'));
+      utils.prettyJson(getDeploymentParams(deployment));
+
+      if (deployment.logs) {
+        console.log(chalk.bold('\nLogs:'));
+        console.log(deployment.logs);
+      }
+      console.log();
+    } catch (error: any) {
+      utils.error(error.message || 'Failed to fetch deployment');
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+deploymentsCommand
+  .command('rollback')
+  .description('Redeploy an earlier deployment without rebuilding')
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .argument('[env-name]', 'Environment name, ID or vaf.yml alias (default: the current environment)')
+  .argument('[deployment-id]', 'Deployment to restore (defaults to the previous successful one)')
+  .option('--service <name>', 'Roll back this service from the environment\'s services in vaf.yml')
+  .option('--force', 'Skip confirmation')
+  .action(async (projectArg, envArg, deploymentArg, options) => {
+    try {
+      if (!config.getToken()) {
+        utils.error('Not authenticated. Please run "vaf login"');
+        process.exit(1);
+      }
+
+      const {
+        projectId,
+        envName,
+        args: [deploymentId],
+      } = resolveCommandTarget([projectArg, envArg, deploymentArg], { env: true, optional: 1 });
+      const environmentId = await resolveEnvironmentId(client.environments(projectId), envName);
+      const environments = client.environments(projectId);
+
+      let target: Deployment;
+      if (deploymentId) {
+        target = await environments.deployment(environmentId, deploymentId);
+      } else {
+        utils.info('Finding previous successful deployment...');
+        const deployments = await environments.deployments(environmentId);
+        const services = new Set(deployments
+          .filter((deployment) => deployment.status === 'success')
+          .map((deployment) => getDeploymentParams(deployment).service));
+        if (!options.service && services.size > 1) {
+          utils.error('The environment has deployments of several services, pick one with --service <name>');
+          process.exit(1);
+        }
+        target = rollbackTarget(deployments, options.service ?? [...services][0]);
+        if (!target) {
+          utils.error(`No earlier successful deployment${options.service ? ` of ${options.service}` : ''} to roll back to`);
+          process.exit(1);
+        }
+      }
+
+      if (target.status !== 'success') {
+        utils.warn(`Deployment ${target.id} has status "${target.status}"`);
+      }
+
+      const params = getDeploymentParams(target);
+      if (!params.deploymentKey && !params.imageUri) {
+        utils.error(`Deployment ${target.id} has no deployment key or image URI to restore`);
+        process.exit(1);
+      }
+      if (options.service && params.service !== options.service) {
+        utils.error(`Deployment ${target.id} is not a deployment of ${options.service}`);
+        process.exit(1);
+      }
+
+      if (!options.force) {
+        const what = params.service ? `${params.service} in ${envName}` : envName;
+        utils.warn(`This will redeploy ${what} from deployment ${target.id} (${utils.formatDate(target.createdAt)}).`);
+        const { confirm } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: 'Are you sure?',
+            default: false,
+          },
+        ]);
+
+        if (!confirm) {
+          utils.info('Cancelled');
+          return;
+        }
+      }
+
+      utils.info('Deployment parameters:');
+      printProgress(chalk.gray(JSON.stringify(params, null, 2)));
+
+      utils.info('🚀 Rolling back...');
+      const deployment = await environments.deploy(
+        environmentId,
+        params as DeployParams,
+        { timeout: 600000 } // 10 minutes, same as zip deployments
+      );
+
+      utils.success(`Rollback initiated: ${deployment.id || 'Success'}`);
+
+      if (deployment.id) {
+        const result = await pollDeploymentStatus(projectId, environmentId, String(deployment.id));
+        if (!result) {
+          process.exit(utils.EXIT_CODES.DEPLOY_FAILED);
+        }
+      }
+    } catch (error: any) {
+      utils.error(error.message || 'Failed to roll back deployment');
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+export default deploymentsCommand;
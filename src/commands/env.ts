@@ -1,10 +1,14 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { ApiClient } from '../api';
+import { VafClient } from '../sdk';
 import { ConfigManager } from '../config';
+import { resolveCommandTarget } from '../project';
+import { clearEnvironmentCache, resolveEnvironmentId } from '../environments';
 import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { printDetails, printList } from '../output';
 
-const api = new ApiClient();
+const client = new VafClient();
 const config = ConfigManager.getInstance();
 
 const envCommand = new Command('env')
@@ -14,106 +18,103 @@ envCommand
   .command('list')
   .alias('ls')
   .description('List environments for a project')
-  .argument('<project-id>', 'Project ID')
-  .action(async (projectId) => {
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .action(async (projectArg) => {
     try {
       if (!config.getToken()) {
         utils.error('Not authenticated. Please run "vaf login"');
         process.exit(1);
       }
 
-      utils.info('Fetching environments...');
-      const environments = await api.get<any[]>(
-        `/api/projects/${projectId}/environments`
-      );
-
-      if (environments.length === 0) {
-        utils.info('No environments found.');
-        return;
-      }
+      const { projectId } = resolveCommandTarget([projectArg]);
 
-      console.log(chalk.bold(`\nEnvironments for project ${projectId}:`));
-      console.log(chalk.gray('─────────────────────────────────────────────────────────'));
-      environments.forEach((env) => {
-        console.log(chalk.cyan('ID:'), env.id);
-        console.log(chalk.cyan('Name:'), env.name);
-        console.log(chalk.cyan('Status:'), env.status || 'active');
-        console.log(chalk.cyan('Created:'), utils.formatDate(env.createdAt));
-        console.log();
-      });
+      utils.info('Fetching environments...');
+      const environments = await client.environments(projectId).list();
+
+      printList(environments, [
+        { header: 'ID', value: (env) => env.id, colour: (text) => chalk.cyan(text) },
+        { header: 'Name', value: (env) => env.name },
+        { header: 'Status', value: (env) => env.status || 'active', colour: (text) => utils.colourStatus(text) },
+        { header: 'Created', value: (env) => utils.formatDate(env.createdAt) },
+      ], 'No environments found.');
     } catch (error: any) {
       utils.error(error.message || 'Failed to list environments');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
 envCommand
   .command('create')
   .description('Create a new environment')
-  .argument('<project-id>', 'Project ID')
-  .argument('<name>', 'Environment name')
-  .action(async (projectId, name) => {
+  .usage('[options] [project-id] <name>')
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .argument('[name]', 'Environment name')
+  .action(async (...args) => {
     try {
       if (!config.getToken()) {
         utils.error('Not authenticated. Please run "vaf login"');
         process.exit(1);
       }
 
+      const { projectId, args: [name] } = resolveCommandTarget(args.slice(0, 2), { required: 1 });
+
       utils.info('Creating environment...');
-      const environment = await api.post<any>(
-        `/api/projects/${projectId}/environments`,
-        { name }
-      );
+      const environment = await client.environments(projectId).create(name);
+      clearEnvironmentCache(projectId);
 
       utils.success(`Environment created: ${environment.name} (${environment.id})`);
-      utils.prettyJson(environment);
+      printDetails(environment, 'Environment Details');
     } catch (error: any) {
       utils.error(error.message || 'Failed to create environment');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
 envCommand
   .command('show')
   .description('Show environment details')
-  .argument('<project-id>', 'Project ID')
-  .argument('<env-id>', 'Environment ID')
-  .action(async (projectId, envId) => {
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .argument('[env]', 'Environment name, ID or vaf.yml alias (default: the current environment)')
+  .action(async (projectArg, envArg) => {
     try {
       if (!config.getToken()) {
         utils.error('Not authenticated. Please run "vaf login"');
         process.exit(1);
       }
 
+      const { projectId, envName: env } = resolveCommandTarget([projectArg, envArg], { env: true });
+      const envId = await resolveEnvironmentId(client.environments(projectId), env);
+
       utils.info('Fetching environment...');
-      const environment = await api.get<any>(
-        `/api/projects/${projectId}/environments/${envId}`
-      );
+      const environment = await client.environments(projectId).get(envId);
 
-      console.log(chalk.bold('\nEnvironment Details:'));
-      console.log(chalk.gray('───────────────────────────'));
-      utils.prettyJson(environment);
+      printDetails(environment, 'Environment Details');
     } catch (error: any) {
       utils.error(error.message || 'Failed to fetch environment');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
 envCommand
   .command('delete')
   .description('Delete an environment')
-  .argument('<project-id>', 'Project ID')
-  .argument('<env-id>', 'Environment ID')
+  .usage('[options] [project-id] <env>')
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  // Never the current environment, a delete names what it deletes
+  .argument('[env]', 'Environment name, ID or vaf.yml alias')
   .option('--force', 'Skip confirmation')
-  .action(async (projectId, envId, options) => {
+  .action(async (projectArg, envArg, options) => {
     try {
       if (!config.getToken()) {
         utils.error('Not authenticated. Please run "vaf login"');
         process.exit(1);
       }
 
+      const { projectId, args: [env] } = resolveCommandTarget([projectArg, envArg], { required: 1 });
+      const envId = await resolveEnvironmentId(client.environments(projectId), env);
+
       if (!options.force) {
-        utils.warn(`This will delete environment ${envId}.`);
+        utils.warn(`This will delete environment ${env} (${envId}).`);
         const { confirm } = await import('inquirer').then((m) =>
           m.default.prompt([
             {
@@ -131,14 +132,13 @@ envCommand
       }
 
       utils.info('Deleting environment...');
-      await api.delete(
-        `/api/projects/${projectId}/environments/${envId}`
-      );
+      await client.environments(projectId).delete(envId);
+      clearEnvironmentCache(projectId);
 
       utils.success(`Environment ${envId} deleted successfully`);
     } catch (error: any) {
       utils.error(error.message || 'Failed to delete environment');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
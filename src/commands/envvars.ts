@@ -2,11 +2,15 @@ import { Command } from 'commander';
 import * as fs from 'fs';
 import chalk from 'chalk';
 import FormData from 'form-data';
-import { ApiClient } from '../api';
+import { VafClient } from '../sdk';
 import { ConfigManager } from '../config';
+import { resolveCommandTarget } from '../project';
+import { resolveEnvironmentId } from '../environments';
 import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { isStructured, printData, printList } from '../output';
 
-const api = new ApiClient();
+const client = new VafClient();
 const config = ConfigManager.getInstance();
 
 const varsCommand = new Command('vars')
@@ -16,59 +20,65 @@ varsCommand
   .command('list')
   .alias('ls')
   .description('List all environment variables')
-  .argument('<project-id>', 'Project ID')
-  .argument('<env-id>', 'Environment ID')
-  .action(async (projectId, envId) => {
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .argument('[env]', 'Environment name, ID or vaf.yml alias (default: the current environment)')
+  .action(async (projectArg, envArg) => {
     try {
       if (!config.getToken()) {
         utils.error('Not authenticated. Please run "vaf login"');
         process.exit(1);
       }
 
+      const { projectId, envName } = resolveCommandTarget([projectArg, envArg], { env: true });
+      const envId = await resolveEnvironmentId(client.environments(projectId), envName);
+
       utils.info('Fetching environment variables...');
-      const vars = await api.get<any>(
-        `/api/projects/${projectId}/environments/${envId}/env-variables`
-      );
+      const vars = await client.environments(projectId).variables(envId);
 
-      if (!vars || Object.keys(vars).length === 0) {
-        utils.info('No environment variables set.');
+      // Structured output keeps the backend's key/value map as-is
+      if (isStructured()) {
+        printData(vars);
         return;
       }
 
-      console.log(chalk.bold('\nEnvironment Variables:'));
-      console.log(chalk.gray('───────────────────────────'));
-      Object.entries(vars).forEach(([key, value]) => {
-        console.log(chalk.cyan(`${key}`), '=', value);
-      });
+      const rows = Object.entries(vars).map(([key, value]) => ({ key, value }));
+      printList(rows, [
+        { header: 'Key', value: (row) => row.key, colour: (text) => chalk.cyan(text) },
+        { header: 'Value', value: (row) => row.value },
+      ], 'No environment variables set.');
     } catch (error: any) {
       utils.error(error.message || 'Failed to list environment variables');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
 varsCommand
   .command('set')
   .description('Set an environment variable')
-  .argument('<project-id>', 'Project ID')
-  .argument('<env-id>', 'Environment ID')
-  .argument('<key>', 'Variable key')
-  .argument('<value>', 'Variable value')
-  .action(async (projectId, envId, key, value) => {
+  .usage('[options] [project-id] [env] <key> <value>')
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .argument('[env]', 'Environment name, ID or vaf.yml alias (default: the current environment)')
+  .argument('[key]', 'Variable key')
+  .argument('[value]', 'Variable value')
+  .action(async (...args) => {
     try {
       if (!config.getToken()) {
         utils.error('Not authenticated. Please run "vaf login"');
         process.exit(1);
       }
 
+      const { projectId, envName, args: [key, value] } = resolveCommandTarget(args.slice(0, 4), { env: true, required: 2 });
+      const envId = await resolveEnvironmentId(client.environments(projectId), envName);
+
       utils.info('Setting environment variable...');
-      await api.post(`/api/projects/${projectId}/environments/${envId}/env-variables`, {
+      await client.environments(projectId).setVariables(envId, {
         [key]: value,
       });
 
       utils.success(`Environment variable ${key} set successfully`);
     } catch (error: any) {
       utils.error(error.message || 'Failed to set environment variable');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -76,41 +86,46 @@ varsCommand
   .command('remove')
   .alias('rm')
   .description('Remove an environment variable')
-  .argument('<project-id>', 'Project ID')
-  .argument('<env-id>', 'Environment ID')
-  .argument('<key>', 'Variable key')
-  .action(async (projectId, envId, key) => {
+  .usage('[options] [project-id] [env] <key>')
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .argument('[env]', 'Environment name, ID or vaf.yml alias (default: the current environment)')
+  .argument('[key]', 'Variable key')
+  .action(async (...args) => {
     try {
       if (!config.getToken()) {
         utils.error('Not authenticated. Please run "vaf login"');
         process.exit(1);
       }
 
+      const { projectId, envName, args: [key] } = resolveCommandTarget(args.slice(0, 3), { env: true, required: 1 });
+      const envId = await resolveEnvironmentId(client.environments(projectId), envName);
+
       utils.info('Removing environment variable...');
-      await api.delete(
-        `/api/projects/${projectId}/environments/${envId}/env-variables/${key}`
-      );
+      await client.environments(projectId).removeVariable(envId, key);
 
       utils.success(`Environment variable ${key} removed successfully`);
     } catch (error: any) {
       utils.error(error.message || 'Failed to remove environment variable');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
 varsCommand
   .command('set-file')
   .description('Bulk set environment variables from a file')
-  .argument('<project-id>', 'Project ID')
-  .argument('<env-id>', 'Environment ID')
-  .argument('<file>', 'Path to .env file')
-  .action(async (projectId, envId, filePath) => {
+  .usage('[options] [project-id] [env] <file>')
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .argument('[env]', 'Environment name, ID or vaf.yml alias (default: the current environment)')
+  .argument('[file]', 'Path to .env file')
+  .action(async (...args) => {
     try {
       if (!config.getToken()) {
         utils.error('Not authenticated. Please run "vaf login"');
         process.exit(1);
       }
 
+      const { projectId, envName, args: [filePath] } = resolveCommandTarget(args.slice(0, 3), { env: true, required: 1 });
+
       if (!fs.existsSync(filePath)) {
         utils.error(`File not found: ${filePath}`);
         process.exit(1);
@@ -136,16 +151,15 @@ varsCommand
         return;
       }
 
+      const envId = await resolveEnvironmentId(client.environments(projectId), envName);
+
       utils.info(`Setting ${Object.keys(variables).length} environment variables...`);
-      await api.post(
-        `/api/projects/${projectId}/environments/${envId}/env-variables`,
-        variables
-      );
+      await client.environments(projectId).setVariables(envId, variables);
 
       utils.success('Environment variables set successfully');
     } catch (error: any) {
       utils.error(error.message || 'Failed to set environment variables from file');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
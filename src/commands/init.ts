@@ -5,6 +5,8 @@ import inquirer from 'inquirer';
 import * as yaml from 'js-yaml';
 import chalk from 'chalk';
 import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { defaultHandler } from '../runtime';
 
 interface EnvironmentConfig {
   runtime?: string;
@@ -148,7 +150,7 @@ const initCommand = new Command('init')
             type: 'input',
             name: 'handler',
             message: 'Handler function (e.g., index.handler):',
-            default: 'index.handler',
+            default: (answers: any) => defaultHandler(answers.runtime) || 'index.handler',
           },
           {
             type: 'confirm',
@@ -292,7 +294,7 @@ const initCommand = new Command('init')
       console.log();
     } catch (error: any) {
       utils.error(error.message || 'Failed to create vaf.yml');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
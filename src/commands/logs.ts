@@ -0,0 +1,145 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as yaml from 'js-yaml';
+import { LogEvent, VafClient } from '../sdk';
+import { ConfigManager } from '../config';
+import { loadVafConfig, resolveProjectTarget } from '../project';
+import { resolveEnvironment } from '../environments';
+import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { getOutputFormat, isStructured } from '../output';
+
+const client = new VafClient();
+const config = ConfigManager.getInstance();
+
+const POLL_INTERVAL = 2000;
+// Upper bound on remembered event keys so long-running tails don't grow forever
+const MAX_SEEN_EVENTS = 5000;
+
+interface LogsOptions {
+  follow?: boolean;
+  since?: string;
+  filter?: string;
+  json?: boolean;
+}
+
+function parseDuration(value: string): number {
+  const match = /^(\d+)\s*(s|m|h|d)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (use e.g. 30s, 15m, 2h, 1d)`);
+  }
+  const units: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+  return parseInt(match[1], 10) * units[match[2]];
+}
+
+function detectLevel(event: LogEvent): string {
+  if (event.level) {
+    return event.level.toLowerCase();
+  }
+  const message = event.message.toUpperCase();
+  if (message.includes('ERROR') || message.includes('FATAL')) return 'error';
+  if (message.includes('WARN')) return 'warn';
+  if (message.includes('DEBUG')) return 'debug';
+  return 'info';
+}
+
+function printEvent(event: LogEvent, json: boolean): void {
+  const level = detectLevel(event);
+
+  if (json) {
+    console.log(JSON.stringify({ ...event, level }));
+    return;
+  }
+
+  if (getOutputFormat() === 'yaml') {
+    process.stdout.write(`---\n${yaml.dump({ ...event, level }, { lineWidth: -1 })}`);
+    return;
+  }
+
+  const date = new Date(event.timestamp);
+  const timestamp = chalk.gray(isNaN(date.getTime()) ? String(event.timestamp) : date.toISOString());
+  const message = event.message.replace(/\n$/, '');
+  const colour = level === 'error' || level === 'fatal' ? chalk.red :
+    level === 'warn' || level === 'warning' ? chalk.yellow :
+    level === 'debug' || level === 'trace' ? chalk.gray : (text: string) => text;
+
+  console.log(`${timestamp} ${colour(message)}`);
+}
+
+function eventKey(event: LogEvent): string {
+  return event.id || `${event.timestamp}:${event.stream || ''}:${event.message}`;
+}
+
+const logsCommand = new Command('logs')
+  .description('Show runtime logs for a deployed environment')
+  .argument('[project-id]', 'Project ID (can be in vaf.yml)')
+  .argument('[env-name]', 'Environment name (default: the current environment)')
+  .option('-f, --follow', 'Keep polling for new log lines')
+  .option('--since <duration>', 'Show logs newer than a relative duration (e.g. 15m, 2h)', '15m')
+  .option('--filter <pattern>', 'Only show lines matching a filter pattern')
+  .option('--json', 'Print each log event as a JSON line')
+  .action(async (projectId, envName, options: LogsOptions) => {
+    try {
+      if (!config.getToken()) {
+        utils.error('Not authenticated. Please run "vaf login"');
+        process.exit(1);
+      }
+
+      const vafConfig = loadVafConfig(process.cwd());
+      const target = resolveProjectTarget(vafConfig, projectId, envName);
+
+      const environments = client.environments(target.projectId);
+      const { id: environmentId } = await resolveEnvironment(environments, target.envName, vafConfig);
+
+      const startTime = Date.now() - parseDuration(options.since || '15m');
+      const seen = new Set<string>();
+      let cursor: string | undefined;
+
+      // --json predates the global --output flag and still forces JSON lines
+      const json = !!options.json || getOutputFormat() === 'json';
+      if (!isStructured()) {
+        utils.info(`Showing logs for ${target.envName} since ${new Date(startTime).toLocaleString()}`);
+      }
+
+      while (true) {
+        const response = await environments.logs(environmentId, {
+          startTime,
+          cursor,
+          filter: options.filter,
+        });
+
+        let printed = 0;
+        for (const event of response.events) {
+          const key = eventKey(event);
+          if (seen.has(key)) continue;
+
+          seen.add(key);
+          if (seen.size > MAX_SEEN_EVENTS) {
+            // Sets iterate in insertion order, so this drops the oldest key
+            seen.delete(seen.values().next().value);
+          }
+          printEvent(event, json);
+          printed++;
+        }
+
+        // The backend keeps returning the last cursor once it has caught up
+        if (response.nextCursor) {
+          cursor = response.nextCursor;
+        }
+
+        if (!options.follow && (printed === 0 || !response.nextCursor)) {
+          break;
+        }
+
+        // Drain pages back to back, then wait for new lines
+        if (printed === 0) {
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+        }
+      }
+    } catch (error: any) {
+      utils.error(error.message || 'Failed to fetch logs');
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+export default logsCommand;
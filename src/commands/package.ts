@@ -0,0 +1,185 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { ConfigManager } from '../config';
+import { findProjectRoot, loadVafConfig, resolveEnvironmentConfig, resolveServiceTargets } from '../project';
+import { PackageFile, functionPackageOptions, listPackageFiles } from '../ignore';
+import { bundleFunction } from '../bundle';
+import { DEFAULT_RUNTIME, defaultHandler, runtimeFamily } from '../runtime';
+import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { isStructured, printData, printList, printTable } from '../output';
+
+const LARGEST_FILES = 10;
+
+interface PackageOptions {
+  list?: boolean;
+  useLayers?: boolean;
+  useGitignore?: boolean;
+  bundle?: boolean;
+  service?: string;
+}
+
+interface PackageEntry {
+  path: string;
+  files: number;
+  size: number;
+}
+
+function totalSize(files: PackageFile[]): number {
+  return files.reduce((sum, file) => sum + file.size, 0);
+}
+
+// Groups files by their top-level file or directory
+function summariseEntries(files: PackageFile[]): PackageEntry[] {
+  const entries = new Map<string, PackageEntry>();
+  files.forEach((file) => {
+    const [first, ...rest] = file.path.split('/');
+    const name = rest.length > 0 ? `${first}/` : first;
+    const entry = entries.get(name) || { path: name, files: 0, size: 0 };
+    entry.files++;
+    entry.size += file.size;
+    entries.set(name, entry);
+  });
+  return [...entries.values()].sort((a, b) => b.size - a.size);
+}
+
+function directoryStats(dir: string): { files: number; size: number } {
+  const stats = { files: 0, size: 0 };
+  if (!fs.existsSync(dir)) {
+    return stats;
+  }
+  fs.readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      const nested = directoryStats(fullPath);
+      stats.files += nested.files;
+      stats.size += nested.size;
+    } else if (entry.isFile()) {
+      stats.files++;
+      stats.size += fs.statSync(fullPath).size;
+    }
+  });
+  return stats;
+}
+
+const packageCommand = new Command('package')
+  .description('Preview the files a deploy would package, without deploying')
+  .argument('[env-name]', 'Environment in vaf.yml to take packaging settings from (default: the current environment)')
+  .option('--list', 'List every packaged file with its size')
+  .option('--use-layers', 'Preview with node_modules in a Lambda layer (default: true)')
+  .option('--no-use-layers', 'Preview with node_modules included in the package')
+  .option('--use-gitignore', 'Also exclude files matched by .gitignore')
+  .option('--bundle', 'Preview the esbuild bundle of the handler entry point')
+  .option('--no-bundle', 'Preview the project directory as is')
+  .option('--service <name>', 'Service in vaf.yml to preview, when the environment has services')
+  .action(async (envArg, options: PackageOptions) => {
+    try {
+      const envName = envArg || ConfigManager.getInstance().getEnvironment();
+      const projectRoot = findProjectRoot(process.cwd()) || process.cwd();
+      const vafConfig = loadVafConfig(projectRoot);
+      const environmentConfig = envName && vafConfig?.environments?.[envName]
+        ? resolveEnvironmentConfig(vafConfig, envName)
+        : undefined;
+      if (envName && !environmentConfig) {
+        utils.warn(`Environment "${envName}" not found in vaf.yml, using defaults`);
+      }
+
+      const targets = resolveServiceTargets(environmentConfig, projectRoot, options.service);
+      if (targets.length > 1) {
+        throw new Error(`Environment "${envName}" has services (${targets.map((target) => target.service).join(', ')}), pick one with --service`);
+      }
+      const { root: cwd, config: envConfig } = targets[0];
+
+      const useLayers = options.useLayers ?? envConfig?.useLayers ?? true;
+      const useGitignore = options.useGitignore ?? envConfig?.useGitignore;
+      const runtime = envConfig?.runtime || DEFAULT_RUNTIME;
+      const isNode = runtimeFamily(runtime) === 'nodejs';
+      const useBundle = isNode && (options.bundle ?? envConfig?.bundle ?? false);
+
+      let files: PackageFile[];
+      // Python dependencies are only installed by the deploy
+      let layerDirs = useLayers && isNode ? ['node_modules'] : [];
+      if (useBundle) {
+        const bundle = await bundleFunction(cwd, {
+          handler: envConfig?.handler || (defaultHandler(runtime) as string),
+          runtime,
+          externals: envConfig?.externals,
+          includeExternals: !useLayers,
+        });
+        files = bundle.files;
+        layerDirs = useLayers ? bundle.externalPackages.map((packagePath) => `node_modules/${packagePath}`) : [];
+        fs.rmSync(bundle.outDir, { recursive: true, force: true });
+      } else {
+        files = listPackageFiles(cwd, functionPackageOptions(useLayers, useGitignore, envConfig?.ignore));
+      }
+
+      if (options.list) {
+        printList(files, [
+          { header: 'Path', value: (file) => file.path },
+          { header: 'Size', value: (file) => utils.formatBytes(file.size) },
+        ], 'No files would be packaged.');
+        return;
+      }
+
+      const entries = summariseEntries(files);
+      const layer = layerDirs.length > 0
+        ? layerDirs.map((dir) => directoryStats(path.join(cwd, dir))).reduce((sum, stats) => ({
+          files: sum.files + stats.files,
+          size: sum.size + stats.size,
+        }))
+        : undefined;
+      const largest = [...files].sort((a, b) => b.size - a.size).slice(0, LARGEST_FILES);
+
+      if (isStructured()) {
+        printData({
+          files: files.length,
+          size: totalSize(files),
+          useLayers,
+          useGitignore: !!useGitignore,
+          bundle: useBundle,
+          entries,
+          largestFiles: largest,
+          layer,
+        });
+        return;
+      }
+
+      console.log(chalk.bold('\nFunction package:'));
+      console.log(chalk.gray('───────────────────────────'));
+      console.log(chalk.cyan('Files:'), files.length);
+      console.log(chalk.cyan('Size:'), `${utils.formatBytes(totalSize(files))} (uncompressed)`);
+      if (layer) {
+        console.log(
+          chalk.cyan('Layer:'),
+          `${useBundle ? `${layerDirs.length} external packages` : 'node_modules'}, ${layer.files} files, ` +
+          `${utils.formatBytes(layer.size)} (reused while dependencies are unchanged)`
+        );
+      }
+
+      if (entries.length === 0) {
+        utils.info('No files would be packaged.');
+        return;
+      }
+
+      console.log();
+      printTable(entries, [
+        { header: 'Path', value: (entry) => entry.path },
+        { header: 'Files', value: (entry) => entry.files },
+        { header: 'Size', value: (entry) => utils.formatBytes(entry.size) },
+      ]);
+
+      console.log(chalk.bold('\nLargest files:'));
+      printTable(largest, [
+        { header: 'Path', value: (file) => file.path },
+        { header: 'Size', value: (file) => utils.formatBytes(file.size) },
+      ]);
+      console.log(chalk.gray('\nRun "vaf package --list" to see every file.'));
+    } catch (error: any) {
+      utils.error(error.message || 'Failed to list package contents');
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+export default packageCommand;
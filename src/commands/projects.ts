@@ -1,10 +1,13 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { ApiClient } from '../api';
+import { VafClient } from '../sdk';
 import { ConfigManager } from '../config';
+import { resolveCommandTarget } from '../project';
 import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { printDetails, printList } from '../output';
 
-const api = new ApiClient();
+const client = new VafClient();
 const config = ConfigManager.getInstance();
 
 const projectsCommand = new Command('projects')
@@ -22,25 +25,17 @@ projectsCommand
       }
 
       utils.info('Fetching projects...');
-      const projects = await api.get<any[]>('/api/projects');
-
-      if (projects.length === 0) {
-        utils.info('No projects found.');
-        return;
-      }
-
-      console.log(chalk.bold('\nProjects:'));
-      console.log(chalk.gray('─────────────────────────────────────────────────────────'));
-      projects.forEach((project) => {
-        console.log(chalk.cyan('ID:'), project.id);
-        console.log(chalk.cyan('Name:'), project.name);
-        console.log(chalk.cyan('Region:'), project.region || 'N/A');
-        console.log(chalk.cyan('Created:'), utils.formatDate(project.createdAt));
-        console.log();
-      });
+      const projects = await client.projects.list();
+
+      printList(projects, [
+        { header: 'ID', value: (project) => project.id, colour: (text) => chalk.cyan(text) },
+        { header: 'Name', value: (project) => project.name },
+        { header: 'Region', value: (project) => project.region || 'N/A' },
+        { header: 'Created', value: (project) => utils.formatDate(project.createdAt) },
+      ], 'No projects found.');
     } catch (error: any) {
       utils.error(error.message || 'Failed to list projects');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -57,45 +52,46 @@ projectsCommand
       }
 
       utils.info('Creating project...');
-      const project = await api.post<any>('/api/projects', {
+      const project = await client.projects.create({
         name,
         region: options.region || 'us-east-1',
       });
 
       utils.success(`Project created: ${project.name} (${project.id})`);
-      utils.prettyJson(project);
+      printDetails(project, 'Project Details');
     } catch (error: any) {
       utils.error(error.message || 'Failed to create project');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
 projectsCommand
   .command('show')
   .description('Show project details')
-  .argument('<project-id>', 'Project ID')
-  .action(async (projectId) => {
+  .argument('[project-id]', 'Project ID (default: from vaf.yml)')
+  .action(async (projectArg) => {
     try {
       if (!config.getToken()) {
         utils.error('Not authenticated. Please run "vaf login"');
         process.exit(1);
       }
 
+      const { projectId } = resolveCommandTarget([projectArg]);
+
       utils.info('Fetching project...');
-      const project = await api.get<any>(`/api/projects/${projectId}`);
+      const project = await client.projects.get(projectId);
 
-      console.log(chalk.bold('\nProject Details:'));
-      console.log(chalk.gray('───────────────────────────'));
-      utils.prettyJson(project);
+      printDetails(project, 'Project Details');
     } catch (error: any) {
       utils.error(error.message || 'Failed to fetch project');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
 projectsCommand
   .command('delete')
   .description('Delete a project')
+  // Never inferred from vaf.yml, a delete names what it deletes
   .argument('<project-id>', 'Project ID')
   .option('--force', 'Skip confirmation')
   .action(async (projectId, options) => {
@@ -124,12 +120,12 @@ projectsCommand
       }
 
       utils.info('Deleting project...');
-      await api.delete(`/api/projects/${projectId}`);
+      await client.projects.delete(projectId);
 
       utils.success(`Project ${projectId} deleted successfully`);
     } catch (error: any) {
       utils.error(error.message || 'Failed to delete project');
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   });
 
@@ -0,0 +1,53 @@
+import { Command } from 'commander';
+import { VafClient } from '../sdk';
+import { ConfigManager } from '../config';
+import { loadVafConfig } from '../project';
+import { resolveEnvironment } from '../environments';
+import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+
+const client = new VafClient();
+const config = ConfigManager.getInstance();
+
+const useCommand = new Command('use')
+  .description('Set the current environment, used by commands when it is left out')
+  .argument('[env]', 'Environment name, ID or vaf.yml alias (prints the current one when left out)')
+  .option('--clear', 'Unset the current environment')
+  .action(async (env, options) => {
+    try {
+      if (options.clear) {
+        config.clearEnvironment();
+        utils.success('Current environment cleared');
+        return;
+      }
+
+      if (!env) {
+        const current = config.getEnvironment();
+        if (!current) {
+          utils.info('No current environment. Run "vaf use <env>" to set one');
+          return;
+        }
+        console.log(current);
+        return;
+      }
+
+      let name = env;
+      const vafConfig = loadVafConfig(process.cwd());
+      // Inside a project, check the environment exists before switching to it
+      if (vafConfig?.id && config.getToken()) {
+        const environment = await resolveEnvironment(client.environments(vafConfig.id), env, vafConfig);
+        // Keep vaf.yml keys as given so deploy finds their settings
+        name = vafConfig.environments?.[env] ? env : environment.name;
+      } else if (vafConfig?.environments && !(env in vafConfig.environments)) {
+        utils.warn(`Environment "${env}" is not in vaf.yml`);
+      }
+
+      config.setEnvironment(name);
+      utils.success(`Now using environment "${name}" (profile "${config.getProfileName()}")`);
+    } catch (error: any) {
+      utils.error(error.message || 'Failed to set the current environment');
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+export default useCommand;
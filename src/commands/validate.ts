@@ -0,0 +1,46 @@
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { findVafConfigFile } from '../project';
+import { formatIssue, validateVafConfig } from '../configschema';
+import * as utils from '../utils';
+import { exitCodeFor } from '../errors';
+import { isStructured, printData } from '../output';
+
+const validateCommand = new Command('validate')
+  .description('Check vaf.yml against the schema')
+  .argument('[file]', 'File to check (default: the nearest vaf.yml)')
+  .action((file) => {
+    try {
+      const filePath = file ? path.resolve(file) : findVafConfigFile(process.cwd());
+      if (!filePath) {
+        utils.error('No vaf.yml found in this directory or its parents');
+        process.exit(1);
+      }
+      if (!fs.existsSync(filePath)) {
+        utils.error(`File not found: ${filePath}`);
+        process.exit(1);
+      }
+
+      const { issues } = validateVafConfig(fs.readFileSync(filePath, 'utf-8'), filePath);
+
+      if (isStructured()) {
+        printData({ file: filePath, valid: issues.length === 0, issues });
+      } else if (issues.length === 0) {
+        utils.success(`${path.relative(process.cwd(), filePath) || filePath} is valid`);
+      } else {
+        issues.forEach((issue) => console.log(chalk.red(formatIssue(filePath, issue))));
+        utils.error(`Found ${issues.length} problem(s)`);
+      }
+
+      if (issues.length > 0) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      utils.error(error.message || 'Failed to validate vaf.yml');
+      process.exit(exitCodeFor(error));
+    }
+  });
+
+export default validateCommand;
@@ -2,23 +2,49 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as jsonfile from 'jsonfile';
+import { CredentialStore } from './credentials';
 
 export interface VafConfig {
   apiUrl: string;
-  token?: string;
   environment?: string;
 }
 
-const CONFIG_DIR = path.join(os.homedir(), '.vaf');
-const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
+// Secrets that older versions kept inside config.json
+interface LegacySecrets {
+  token?: string;
+  refreshToken?: string;
+  tokenExpiresAt?: string;
+}
+
+export interface SessionDetails {
+  refreshToken?: string;
+  expiresAt?: string;
+}
+
+interface ConfigFile {
+  currentProfile: string;
+  profiles: {
+    [name: string]: VafConfig;
+  };
+}
+
+export const CONFIG_DIR = path.join(os.homedir(), '.vaf');
+export const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
+export const CREDENTIALS_FILE = path.join(CONFIG_DIR, 'credentials.json');
 const DEFAULT_API_URL = 'http://localhost:3000/api';
+export const DEFAULT_PROFILE = 'default';
 
 export class ConfigManager {
   private static instance: ConfigManager;
-  private config: VafConfig;
+  private config: ConfigFile;
+  private credentials: CredentialStore;
+  // Profile selected for this process (--profile, VAF_PROFILE or vaf.yml)
+  private activeProfile?: string;
 
   private constructor() {
+    this.credentials = new CredentialStore(CREDENTIALS_FILE);
     this.config = this.loadConfig();
+    this.migrateSecrets();
   }
 
   public static getInstance(): ConfigManager {
@@ -28,24 +54,59 @@ export class ConfigManager {
     return ConfigManager.instance;
   }
 
-  private loadConfig(): VafConfig {
+  private loadConfig(): ConfigFile {
     try {
       if (fs.existsSync(CONFIG_FILE)) {
-        return jsonfile.readFileSync(CONFIG_FILE);
+        const stored = jsonfile.readFileSync(CONFIG_FILE);
+        if (stored.profiles) {
+          return stored;
+        }
+        // Configs written before profiles existed hold a single flat profile
+        return {
+          currentProfile: DEFAULT_PROFILE,
+          profiles: { [DEFAULT_PROFILE]: { apiUrl: DEFAULT_API_URL, ...stored } },
+        };
       }
     } catch (error) {
       // Ignore errors, return defaults
     }
 
     return {
-      apiUrl: DEFAULT_API_URL,
+      currentProfile: DEFAULT_PROFILE,
+      profiles: {
+        [DEFAULT_PROFILE]: { apiUrl: DEFAULT_API_URL },
+      },
     };
   }
 
+  /**
+   * Moves tokens left in config.json by older versions into the credentials
+   * store, then rewrites config.json without them.
+   */
+  private migrateSecrets(): void {
+    const legacyProfiles = Object.entries(this.config.profiles).filter(
+      ([, profile]) => (profile as LegacySecrets).token
+    );
+    if (legacyProfiles.length === 0) {
+      return;
+    }
+
+    try {
+      legacyProfiles.forEach(([name, profile]) => {
+        const { token, refreshToken, tokenExpiresAt, ...settings } = profile as VafConfig & LegacySecrets;
+        this.credentials.set(name, { token, refreshToken, tokenExpiresAt });
+        this.config.profiles[name] = settings;
+      });
+      this.saveConfig();
+    } catch (error) {
+      // Leave config.json untouched, `vaf config doctor` reports the plaintext token
+    }
+  }
+
   private saveConfig(): void {
     try {
       if (!fs.existsSync(CONFIG_DIR)) {
-        fs.mkdirSync(CONFIG_DIR, { recursive: true });
+        fs.mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
       }
       jsonfile.writeFileSync(CONFIG_FILE, this.config, { spaces: 2 });
     } catch (error) {
@@ -53,45 +114,135 @@ export class ConfigManager {
     }
   }
 
+  private profile(): VafConfig {
+    const name = this.getProfileName();
+    if (!this.config.profiles[name]) {
+      this.config.profiles[name] = { apiUrl: DEFAULT_API_URL };
+    }
+    return this.config.profiles[name];
+  }
+
+  public getProfileName(): string {
+    return this.activeProfile || this.config.currentProfile || DEFAULT_PROFILE;
+  }
+
+  public setActiveProfile(name: string): void {
+    this.activeProfile = name;
+  }
+
+  public hasProfile(name: string): boolean {
+    return name === DEFAULT_PROFILE || name in this.config.profiles;
+  }
+
+  // loggedIn is null when the credentials file is encrypted and can't be read
+  public listProfiles(): Array<{ name: string; loggedIn: boolean | null } & VafConfig> {
+    const names = Object.keys(this.config.profiles);
+    if (!names.includes(DEFAULT_PROFILE)) {
+      names.unshift(DEFAULT_PROFILE);
+    }
+    return names.map((name) => ({
+      name,
+      ...(this.config.profiles[name] || { apiUrl: DEFAULT_API_URL }),
+      loggedIn: this.isLoggedIn(name),
+    }));
+  }
+
+  private isLoggedIn(name: string): boolean | null {
+    try {
+      return !!this.credentials.get(name).token;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  public addProfile(name: string, apiUrl?: string): void {
+    if (this.config.profiles[name]) {
+      throw new Error(`Profile "${name}" already exists`);
+    }
+    this.config.profiles[name] = { apiUrl: apiUrl || DEFAULT_API_URL };
+    this.saveConfig();
+  }
+
+  public useProfile(name: string): void {
+    if (!this.hasProfile(name)) {
+      throw new Error(`Profile "${name}" does not exist`);
+    }
+    this.config.currentProfile = name;
+    this.saveConfig();
+  }
+
+  public removeProfile(name: string): void {
+    if (name === DEFAULT_PROFILE) {
+      throw new Error('The default profile cannot be removed');
+    }
+    if (!this.config.profiles[name]) {
+      throw new Error(`Profile "${name}" does not exist`);
+    }
+    delete this.config.profiles[name];
+    this.credentials.remove(name);
+    if (this.config.currentProfile === name) {
+      this.config.currentProfile = DEFAULT_PROFILE;
+    }
+    this.saveConfig();
+  }
+
   public getConfig(): VafConfig {
-    return { ...this.config };
+    return { ...this.profile() };
   }
 
+  // VAF_API_URL and VAF_TOKEN take precedence so CI can authenticate without writing to disk
   public getApiUrl(): string {
-    return this.config.apiUrl;
+    return process.env.VAF_API_URL || this.profile().apiUrl;
   }
 
   public getToken(): string | undefined {
-    return this.config.token;
+    return process.env.VAF_TOKEN || this.credentials.get(this.getProfileName()).token;
+  }
+
+  public getCredentialStore(): CredentialStore {
+    return this.credentials;
+  }
+
+  public isTokenFromEnv(): boolean {
+    return !!process.env.VAF_TOKEN;
   }
 
   public setApiUrl(url: string): void {
-    this.config.apiUrl = url;
+    this.profile().apiUrl = url;
     this.saveConfig();
   }
 
-  public setToken(token: string): void {
-    this.config.token = token;
-    this.saveConfig();
+  public setToken(token: string, session: SessionDetails = {}): void {
+    this.credentials.set(this.getProfileName(), {
+      token,
+      refreshToken: session.refreshToken,
+      tokenExpiresAt: session.expiresAt,
+    });
+  }
+
+  public getRefreshToken(): string | undefined {
+    return this.credentials.get(this.getProfileName()).refreshToken;
+  }
+
+  public getTokenExpiresAt(): string | undefined {
+    return this.isTokenFromEnv() ? undefined : this.credentials.get(this.getProfileName()).tokenExpiresAt;
   }
 
   public clearToken(): void {
-    delete this.config.token;
-    this.saveConfig();
+    this.credentials.remove(this.getProfileName());
   }
 
   public setEnvironment(env: string): void {
-    this.config.environment = env;
+    this.profile().environment = env;
     this.saveConfig();
   }
 
   public getEnvironment(): string | undefined {
-    return this.config.environment;
+    return this.profile().environment;
   }
 
   public clearEnvironment(): void {
-    delete this.config.environment;
+    delete this.profile().environment;
     this.saveConfig();
   }
 }
-
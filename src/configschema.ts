@@ -0,0 +1,414 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { editDistance } from './utils';
+
+// Published with the package so editors can autocomplete vaf.yml
+export const VAF_SCHEMA_FILE = path.join(__dirname, '..', 'schema', 'vaf.schema.json');
+
+type SchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * The part of JSON Schema that vaf.schema.json uses.
+ */
+export interface JsonSchema {
+  $ref?: string;
+  description?: string;
+  type?: SchemaType | SchemaType[];
+  enum?: unknown[];
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  properties?: { [key: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  definitions?: { [name: string]: JsonSchema };
+}
+
+export interface ConfigIssue {
+  // Dotted path of the offending value, like `environments.production.memory`
+  path: string;
+  message: string;
+  // 1-based, when the value could be located in the file
+  line?: number;
+  column?: number;
+}
+
+export class VafConfigError extends Error {
+  constructor(public readonly file: string, public readonly issues: ConfigIssue[]) {
+    super(`${path.basename(file)} is invalid:\n${issues.map((issue) => `  ${formatIssue(file, issue)}`).join('\n')}`);
+    this.name = 'VafConfigError';
+  }
+}
+
+export function formatIssue(file: string, issue: ConfigIssue): string {
+  const location = issue.line ? `${path.basename(file)}:${issue.line}:${issue.column}` : path.basename(file);
+  return issue.path ? `${location} ${issue.path}: ${issue.message}` : `${location} ${issue.message}`;
+}
+
+let vafSchema: JsonSchema | undefined;
+
+export function loadVafSchema(): JsonSchema {
+  if (!vafSchema) {
+    vafSchema = JSON.parse(fs.readFileSync(VAF_SCHEMA_FILE, 'utf-8')) as JsonSchema;
+  }
+  return vafSchema;
+}
+
+type PathSegment = string | number;
+
+interface SchemaError {
+  path: PathSegment[];
+  message: string;
+  // Point at the key rather than its value, for unknown fields
+  atKey?: boolean;
+}
+
+function typeOf(value: unknown): SchemaType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as SchemaType;
+}
+
+const ARTICLES: { [type in SchemaType]: string } = {
+  object: 'a map',
+  array: 'a list',
+  string: 'a string',
+  number: 'a number',
+  integer: 'a whole number',
+  boolean: 'a boolean',
+  null: 'empty',
+};
+
+function describe(value: unknown): string {
+  const type = typeOf(value);
+  if (type === 'string') return `"${value}"`;
+  if (type === 'number' || type === 'integer' || type === 'boolean') return `${type} ${value}`;
+  return type === 'null' ? 'nothing' : ARTICLES[type];
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function expectedTypes(types: SchemaType[]): string {
+  const names = types.map((type) => ARTICLES[type]);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names[0];
+}
+
+function closestKey(key: string, candidates: string[]): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(key.length / 3));
+  return candidates
+    .map((candidate) => ({ candidate, distance: editDistance(key.toLowerCase(), candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)[0]?.candidate;
+}
+
+// Local JSON pointers like `#/definitions/environment/properties/runtime`
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (!schema.$ref) {
+    return schema;
+  }
+  const target = schema.$ref.replace(/^#\/?/, '').split('/').filter(Boolean)
+    .reduce<any>((node, segment) => node?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+  if (!target || typeof target !== 'object') {
+    throw new Error(`Unknown schema reference ${schema.$ref}`);
+  }
+  return resolveRef(target as JsonSchema, root);
+}
+
+function schemaTypes(schema: JsonSchema): SchemaType[] {
+  if (schema.type) {
+    return Array.isArray(schema.type) ? schema.type : [schema.type];
+  }
+  return schema.properties || schema.additionalProperties !== undefined ? ['object'] : [];
+}
+
+/**
+ * Checks `value` against `schema`, collecting every problem rather than
+ * stopping at the first one.
+ */
+function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  at: PathSegment[] = []
+): SchemaError[] {
+  const resolved = resolveRef(schema, root);
+
+  if (resolved.anyOf) {
+    // Report against the branch of the value's type, so `build` entries get field-level errors
+    const branches = resolved.anyOf.map((branch) => resolveRef(branch, root));
+    const candidates = branches.filter((branch) => schemaTypes(branch).some((type) => matchesType(value, type)));
+    if (candidates.length === 1) {
+      return validateSchema(value, candidates[0], root, at);
+    }
+    if (candidates.some((branch) => validateSchema(value, branch, root, at).length === 0)) {
+      return [];
+    }
+    const types = ([] as SchemaType[]).concat(...branches.map(schemaTypes));
+    return [{ path: at, message: `should be ${expectedTypes(types)}, got ${describe(value)}` }];
+  }
+
+  if (resolved.enum) {
+    if (!resolved.enum.includes(value)) {
+      return [{ path: at, message: `should be one of ${resolved.enum.join(', ')}, got ${describe(value)}` }];
+    }
+    return [];
+  }
+
+  const types = schemaTypes(resolved);
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    return [{ path: at, message: `should be ${expectedTypes(types)}, got ${describe(value)}` }];
+  }
+
+  if (typeof value === 'string' && resolved.pattern && !new RegExp(resolved.pattern).test(value)) {
+    const hint = resolved.description ? `: ${resolved.description}` : '';
+    return [{ path: at, message: `"${value}" is not valid here${hint}` }];
+  }
+
+  if (typeof value === 'number') {
+    if (resolved.minimum !== undefined && value < resolved.minimum) {
+      return [{ path: at, message: `should be at least ${resolved.minimum}, got ${value}` }];
+    }
+    if (resolved.maximum !== undefined && value > resolved.maximum) {
+      return [{ path: at, message: `should be at most ${resolved.maximum}, got ${value}` }];
+    }
+  }
+
+  const errors: SchemaError[] = [];
+
+  if (Array.isArray(value) && resolved.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(item, resolved.items as JsonSchema, root, [...at, index]));
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as { [key: string]: unknown };
+    const properties = resolved.properties || {};
+
+    (resolved.required || []).forEach((key) => {
+      if (object[key] === undefined) {
+        errors.push({ path: at, message: `missing required field "${key}"` });
+      }
+    });
+
+    Object.keys(object).forEach((key) => {
+      if (properties[key]) {
+        errors.push(...validateSchema(object[key], properties[key], root, [...at, key]));
+      } else if (resolved.additionalProperties === false) {
+        const suggestion = closestKey(key, Object.keys(properties));
+        errors.push({
+          path: [...at, key],
+          message: `unknown field "${key}"${suggestion ? `, did you mean "${suggestion}"?` : ''}`,
+          atKey: true,
+        });
+      } else if (typeof resolved.additionalProperties === 'object') {
+        errors.push(...validateSchema(object[key], resolved.additionalProperties, root, [...at, key]));
+      }
+    });
+  }
+
+  return errors;
+}
+
+interface YamlNode {
+  start: number;
+  kind?: string;
+  result?: unknown;
+  children: YamlNode[];
+}
+
+/**
+ * Parses YAML and keeps the start offset of every node, so errors found in
+ * the parsed value can point at the line they came from.
+ */
+function parseWithPositions(content: string, filename: string): { value: unknown; root?: YamlNode } {
+  const document: YamlNode = { start: 0, children: [] };
+  const stack: YamlNode[] = [document];
+
+  const value = yaml.load(content, {
+    filename,
+    listener: (event, state) => {
+      if (event === 'open') {
+        const node: YamlNode = { start: state.position, children: [] };
+        stack[stack.length - 1].children.push(node);
+        stack.push(node);
+      } else {
+        const node = stack.pop() as YamlNode;
+        node.kind = state.kind as string;
+        node.result = state.result;
+      }
+    },
+  });
+
+  return { value, root: document.children[0] };
+}
+
+/**
+ * Offset of the node at `at`: the key for map entries when `atKey` is set,
+ * the value otherwise. Stops at the deepest node it can find.
+ */
+function locate(root: YamlNode | undefined, at: PathSegment[], atKey: boolean): number | undefined {
+  // Block sequence items can be wrapped in a node of the same kind and start
+  const unwrap = (wrapper: YamlNode | undefined) => {
+    while (wrapper && wrapper.children.length === 1
+      && wrapper.children[0].start === wrapper.start && wrapper.children[0].kind === wrapper.kind) {
+      wrapper = wrapper.children[0];
+    }
+    return wrapper;
+  };
+
+  let node = unwrap(root);
+  for (let i = 0; node && i < at.length; i++) {
+    const segment = at[i];
+    if (node.kind === 'mapping') {
+      // Children alternate key and value nodes
+      const keyIndex = node.children.findIndex((child, index) => index % 2 === 0 && String(child.result) === String(segment));
+      if (keyIndex < 0) break;
+      if (atKey && i === at.length - 1) {
+        return node.children[keyIndex].start;
+      }
+      node = unwrap(node.children[keyIndex + 1]);
+    } else if (node.kind === 'sequence' && typeof segment === 'number' && node.children[segment]) {
+      node = unwrap(node.children[segment]);
+    } else {
+      break;
+    }
+  }
+  return node?.start;
+}
+
+function lineAndColumn(content: string, offset: number): { line: number; column: number } {
+  // Value nodes open before the spaces that follow the `:` or `-`
+  while (offset < content.length && /[ \t]/.test(content[offset])) {
+    offset++;
+  }
+  const before = content.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+// Service names end up in file names and deploy requests
+const SERVICE_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * Checks that need the whole file rather than one value: `extends` must
+ * name another environment without going round in a circle, `defaults`
+ * can't alias or extend anything, and service names must be plain.
+ */
+function validateReferences(value: unknown): SchemaError[] {
+  if (typeOf(value) !== 'object') {
+    return [];
+  }
+  const config = value as { defaults?: unknown; environments?: unknown };
+  const errors: SchemaError[] = [];
+
+  const checkServiceNames = (settings: unknown, at: PathSegment[]) => {
+    const services = typeOf(settings) === 'object' ? (settings as { services?: unknown }).services : undefined;
+    if (typeOf(services) === 'object') {
+      Object.keys(services as object).filter((name) => !SERVICE_NAME.test(name)).forEach((name) => {
+        errors.push({
+          path: [...at, 'services', name],
+          message: 'service names can only contain letters, digits, - and _',
+          atKey: true,
+        });
+      });
+    }
+  };
+
+  if (typeOf(config.defaults) === 'object') {
+    ['environment', 'extends'].forEach((key) => {
+      if ((config.defaults as { [key: string]: unknown })[key] !== undefined) {
+        errors.push({ path: ['defaults', key], message: `not allowed in defaults`, atKey: true });
+      }
+    });
+    checkServiceNames(config.defaults, ['defaults']);
+  }
+
+  if (typeOf(config.environments) !== 'object') {
+    return errors;
+  }
+  const environments = config.environments as { [name: string]: { extends?: unknown } | null };
+  const names = Object.keys(environments);
+  names.forEach((name) => checkServiceNames(environments[name], ['environments', name]));
+  const parentOf = (name: string) => {
+    const parent = environments[name]?.extends;
+    return typeof parent === 'string' && names.includes(parent) ? parent : undefined;
+  };
+
+  names.forEach((name) => {
+    const parent = environments[name]?.extends;
+    if (typeof parent !== 'string') {
+      return;
+    }
+    if (!names.includes(parent)) {
+      const suggestion = closestKey(parent, names.filter((other) => other !== name));
+      errors.push({
+        path: ['environments', name, 'extends'],
+        message: `unknown environment "${parent}"${suggestion ? `, did you mean "${suggestion}"?` : ''}`,
+      });
+      return;
+    }
+    const chain = [name];
+    for (let next = parentOf(name); next; next = parentOf(next)) {
+      if (next === name) {
+        errors.push({ path: ['environments', name, 'extends'], message: `circular extends: ${[...chain, name].join(' -> ')}` });
+        break;
+      }
+      if (chain.includes(next)) {
+        // A cycle further up, reported on the environments in it
+        break;
+      }
+      chain.push(next);
+    }
+  });
+
+  return errors;
+}
+
+function formatPath(at: PathSegment[]): string {
+  return at.reduce<string>((out, segment) =>
+    typeof segment === 'number' ? `${out}[${segment}]` : out ? `${out}.${segment}` : segment, '');
+}
+
+/**
+ * Parses vaf.yml content and checks it against the schema. Returns the
+ * parsed config and every problem found, each with its line and column.
+ */
+export function validateVafConfig(content: string, file: string): { config: unknown; issues: ConfigIssue[] } {
+  let parsed: { value: unknown; root?: YamlNode };
+  try {
+    parsed = parseWithPositions(content, path.basename(file));
+  } catch (error: any) {
+    if (error instanceof yaml.YAMLException) {
+      return {
+        config: undefined,
+        issues: [{
+          path: '',
+          message: error.reason,
+          line: error.mark ? error.mark.line + 1 : undefined,
+          column: error.mark ? error.mark.column + 1 : undefined,
+        }],
+      };
+    }
+    throw error;
+  }
+
+  const errors = [...validateSchema(parsed.value ?? null, loadVafSchema()), ...validateReferences(parsed.value)];
+  const issues = errors.map((schemaError) => {
+    const offset = locate(parsed.root, schemaError.path, !!schemaError.atKey);
+    return {
+      path: formatPath(schemaError.path),
+      message: schemaError.message,
+      ...(offset !== undefined ? lineAndColumn(content, offset) : {}),
+    };
+  });
+
+  return { config: parsed.value, issues };
+}
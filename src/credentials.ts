@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+export interface Credentials {
+  token?: string;
+  refreshToken?: string;
+  tokenExpiresAt?: string;
+}
+
+interface CredentialsData {
+  profiles: {
+    [name: string]: Credentials;
+  };
+}
+
+interface EncryptedCredentials {
+  encrypted: true;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// Passphrase used to encrypt the credentials file; plaintext (0600) when unset
+export const CREDENTIALS_KEY_ENV = 'VAF_CREDENTIALS_KEY';
+const FILE_MODE = 0o600;
+const CIPHER = 'aes-256-gcm';
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32);
+}
+
+function encrypt(plaintext: string, passphrase: string): EncryptedCredentials {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(CIPHER, deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return {
+    encrypted: true,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decrypt(file: EncryptedCredentials, passphrase: string): string {
+  const decipher = crypto.createDecipheriv(
+    CIPHER,
+    deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+    Buffer.from(file.iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(file.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf-8');
+}
+
+/**
+ * Stores tokens separately from config.json in a file only the current user
+ * can read, encrypted with VAF_CREDENTIALS_KEY when it is set.
+ */
+export class CredentialStore {
+  private data?: CredentialsData;
+
+  constructor(private readonly filePath: string) {}
+
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  public isEncrypted(): boolean {
+    try {
+      return !!JSON.parse(fs.readFileSync(this.filePath, 'utf-8')).encrypted;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private load(): CredentialsData {
+    if (this.data) {
+      return this.data;
+    }
+
+    if (!fs.existsSync(this.filePath)) {
+      this.data = { profiles: {} };
+      return this.data;
+    }
+
+    const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    if (stored.encrypted) {
+      const passphrase = process.env[CREDENTIALS_KEY_ENV];
+      if (!passphrase) {
+        throw new Error(`Credentials are encrypted. Set ${CREDENTIALS_KEY_ENV} to unlock them`);
+      }
+      try {
+        this.data = JSON.parse(decrypt(stored, passphrase));
+      } catch (error) {
+        throw new Error(`Failed to decrypt credentials, check ${CREDENTIALS_KEY_ENV}`);
+      }
+    } else {
+      this.data = stored.profiles ? stored : { profiles: {} };
+    }
+    return this.data;
+  }
+
+  private save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+
+    const plaintext = JSON.stringify(this.data, null, 2);
+    const passphrase = process.env[CREDENTIALS_KEY_ENV];
+    const content = passphrase ? JSON.stringify(encrypt(plaintext, passphrase), null, 2) : plaintext;
+
+    fs.writeFileSync(this.filePath, content, { mode: FILE_MODE });
+    // mode is only applied on creation, tighten files that already existed
+    fs.chmodSync(this.filePath, FILE_MODE);
+  }
+
+  /**
+   * Throws when the file can't be read, so a missing VAF_CREDENTIALS_KEY is
+   * reported as such rather than as being logged out.
+   */
+  public get(profile: string): Credentials {
+    return { ...this.load().profiles[profile] };
+  }
+
+  public set(profile: string, credentials: Credentials): void {
+    const data = this.load();
+    data.profiles[profile] = credentials;
+    this.save();
+  }
+
+  public remove(profile: string): void {
+    const data = this.load();
+    if (data.profiles[profile]) {
+      delete data.profiles[profile];
+      this.save();
+    }
+  }
+
+  /**
+   * Throws when the file can't be read, e.g. encrypted without a key.
+   */
+  public verify(): void {
+    this.load();
+  }
+}
@@ -0,0 +1,78 @@
+import { DeployParams, Deployment, LegacyDeploymentParams } from './sdk';
+
+// Parameters that can be replayed from an earlier deployment without rebuilding
+const REDEPLOY_PARAMS: Array<keyof DeployParams> = [
+  'deploymentKey',
+  'imageUri',
+  'layers',
+  'runtime',
+  'handler',
+  'memory',
+  'timeout',
+  'database',
+  'cache',
+  'storage',
+  'service',
+];
+
+function legacyParams(deployment: Deployment): LegacyDeploymentParams {
+  return { deploymentKey: deployment.deploymentKey, imageUri: deployment.imageUri, layers: deployment.layers };
+}
+
+export function getDeploymentParams(deployment: Deployment): Partial<DeployParams> {
+  const source: Partial<DeployParams> = deployment.parameters || legacyParams(deployment);
+  const params: Partial<Record<keyof DeployParams, unknown>> = {};
+  REDEPLOY_PARAMS.forEach((key) => {
+    if (source[key] !== undefined && source[key] !== null) {
+      params[key] = source[key];
+    }
+  });
+  return params as Partial<DeployParams>;
+}
+
+function createdTime(deployment: Deployment): number {
+  const time = deployment.createdAt ? new Date(deployment.createdAt).getTime() : NaN;
+  return isNaN(time) ? -Infinity : time;
+}
+
+/**
+ * Newest first, whatever order the backend answered in. Deployments without
+ * a date go last, in the order they came.
+ */
+export function newestFirst(deployments: Deployment[]): Deployment[] {
+  return [...deployments].sort((a, b) => {
+    const difference = createdTime(b) - createdTime(a);
+    return isNaN(difference) ? 0 : difference;
+  });
+}
+
+function artifact(deployment: Deployment): string | undefined {
+  const params = getDeploymentParams(deployment);
+  return params.imageUri || params.deploymentKey;
+}
+
+/**
+ * The deployment a rollback of `service` goes back to: the release before
+ * the live one. A deployment of an artifact that was live before is a
+ * rollback and drops the releases after it from the history, so rolling back
+ * twice goes back two releases instead of returning to the one rolled back
+ * from.
+ */
+export function rollbackTarget(deployments: Deployment[], service?: string): Deployment | undefined {
+  const releases: Deployment[] = [];
+  newestFirst(deployments)
+    .reverse()
+    .filter((deployment) => deployment.status === 'success' && getDeploymentParams(deployment).service === service)
+    .forEach((deployment) => {
+      const current = artifact(deployment);
+      if (!current) {
+        return;
+      }
+      const earlier = releases.findIndex((release) => artifact(release) === current);
+      if (earlier !== -1) {
+        releases.splice(earlier);
+      }
+      releases.push(deployment);
+    });
+  return releases[releases.length - 2];
+}
@@ -0,0 +1,384 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import chalk from 'chalk';
+import { spawn } from 'child_process';
+import { DeployError, runStage } from './errors';
+import { prefixLines, printProgress, progressStream } from './output';
+import { EnvironmentConfig } from './project';
+import { EcrConfig } from './sdk';
+import * as utils from './utils';
+
+// Lambda runs x86_64 unless the function is configured for arm64
+export const DEFAULT_PLATFORM = 'linux/amd64';
+
+export interface DockerCliOptions {
+  dockerfile?: string;
+  imageTag?: string;
+  context?: string;
+  target?: string;
+  platform?: string;
+  buildArg?: string[];
+  secret?: string[];
+  label?: string[];
+  cacheFrom?: string;
+  cacheTo?: string;
+}
+
+export interface DockerBuildOptions {
+  dockerfile: string;
+  context: string;
+  platform: string;
+  // Explicit tags are mutable and always rebuilt; otherwise the tag is derived from the content
+  imageTag?: string;
+  target?: string;
+  // A key without a value is passed as `--build-arg KEY` so docker reads it from the environment
+  buildArgs: { [key: string]: string | undefined };
+  secrets: string[];
+  labels: { [key: string]: string };
+  cacheFrom?: string;
+  cacheTo?: string;
+}
+
+export interface PushedImage {
+  tag: string;
+  digest?: string;
+  // Pinned to the digest when the registry reports one
+  imageUri: string;
+}
+
+function parseKeyValues(pairs: string[] = []): { [key: string]: string | undefined } {
+  const result: { [key: string]: string | undefined } = {};
+  pairs.forEach((pair) => {
+    const separator = pair.indexOf('=');
+    if (separator === 0) {
+      throw new Error(`Invalid KEY=VALUE pair "${pair}"`);
+    }
+    if (separator === -1) {
+      result[pair] = undefined;
+    } else {
+      result[pair.slice(0, separator)] = pair.slice(separator + 1);
+    }
+  });
+  return result;
+}
+
+/**
+ * Expands a bare image reference to a registry cache spec; full buildx specs
+ * (`type=...`) are passed through untouched.
+ */
+function cacheSpec(value: string | undefined, exporting: boolean): string | undefined {
+  if (!value || value.includes('=')) {
+    return value;
+  }
+  return exporting ? `type=registry,ref=${value},mode=max` : `type=registry,ref=${value}`;
+}
+
+/**
+ * Merges Docker build settings from vaf.yml and the CLI; CLI values win, and
+ * build args and labels are merged key by key.
+ */
+export function resolveDockerBuildOptions(
+  cwd: string,
+  envName: string,
+  options: DockerCliOptions,
+  envConfig?: EnvironmentConfig,
+  prefix = ''
+): DockerBuildOptions {
+  const context = path.resolve(cwd, options.context || envConfig?.buildContext || '.');
+
+  // Dockerfile priority: CLI option > YAML config > env-specific > default
+  let dockerfile: string;
+  if (options.dockerfile) {
+    dockerfile = path.resolve(cwd, options.dockerfile);
+  } else if (envConfig?.dockerfile) {
+    dockerfile = path.resolve(cwd, envConfig.dockerfile);
+  } else {
+    const envDockerfile = path.join(cwd, `${envName}.Dockerfile`);
+    if (fs.existsSync(envDockerfile)) {
+      dockerfile = envDockerfile;
+      utils.info(`${prefix}Using environment-specific Dockerfile: ${envName}.Dockerfile`);
+    } else {
+      // Same default as docker itself
+      dockerfile = path.join(context, 'Dockerfile');
+    }
+  }
+
+  const buildArgs: { [key: string]: string | undefined } = {};
+  Object.entries(envConfig?.buildArgs || {}).forEach(([key, value]) => {
+    buildArgs[key] = String(value);
+  });
+
+  const labels: { [key: string]: string } = { ...envConfig?.labels };
+  Object.entries(parseKeyValues(options.label)).forEach(([key, value]) => {
+    labels[key] = value || '';
+  });
+
+  return {
+    dockerfile,
+    context,
+    platform: options.platform || envConfig?.platform || DEFAULT_PLATFORM,
+    imageTag: options.imageTag || envConfig?.imageTag,
+    target: options.target || envConfig?.buildTarget,
+    buildArgs: { ...buildArgs, ...parseKeyValues(options.buildArg) },
+    secrets: [...(envConfig?.buildSecrets || []), ...(options.secret || [])],
+    labels,
+    cacheFrom: cacheSpec(options.cacheFrom || envConfig?.cacheFrom, false),
+    cacheTo: cacheSpec(options.cacheTo || envConfig?.cacheTo, true),
+  };
+}
+
+function dockerBuildArgs(build: DockerBuildOptions, localTag: string): string[] {
+  const args = ['buildx', 'build', '--platform', build.platform, '--load', '-f', build.dockerfile, '-t', localTag];
+
+  if (build.target) {
+    args.push('--target', build.target);
+  }
+  Object.entries(build.buildArgs).forEach(([key, value]) => {
+    args.push('--build-arg', value === undefined ? key : `${key}=${value}`);
+  });
+  build.secrets.forEach((secret) => {
+    args.push('--secret', secret);
+  });
+  Object.entries(build.labels).forEach(([key, value]) => {
+    args.push('--label', `${key}=${value}`);
+  });
+  if (build.cacheFrom) {
+    args.push('--cache-from', build.cacheFrom);
+  }
+  if (build.cacheTo) {
+    args.push('--cache-to', build.cacheTo);
+  }
+
+  args.push(build.context);
+  return args;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Reads .dockerignore as path matchers. Negated entries can re-include any
+ * file, so they disable filtering: hashing too much only costs a rebuild.
+ */
+function readDockerIgnore(context: string): RegExp[] {
+  const ignoreFile = path.join(context, '.dockerignore');
+  if (!fs.existsSync(ignoreFile)) {
+    return [];
+  }
+
+  const patterns = fs.readFileSync(ignoreFile, 'utf-8')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+  if (patterns.some((pattern) => pattern.startsWith('!'))) {
+    return [];
+  }
+
+  return patterns.map((pattern) => globToRegExp(pattern.replace(/^\/+|\/+$/g, '')));
+}
+
+/**
+ * Hashes everything that goes into the image: the files docker sends as the
+ * build context, the Dockerfile and the build settings.
+ */
+export function hashBuildContext(build: DockerBuildOptions): string {
+  const hash = crypto.createHash('sha256');
+  const ignored = readDockerIgnore(build.context);
+  const isIgnored = (relativePath: string) => ignored.some((matcher) => matcher.test(relativePath));
+
+  const walk = (dir: string) => {
+    fs.readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+      .forEach((entry) => {
+        const fullPath = path.join(dir, entry.name);
+        const relativePath = path.relative(build.context, fullPath).split(path.sep).join('/');
+        if (entry.name === '.git' || isIgnored(relativePath)) {
+          return;
+        }
+
+        if (entry.isDirectory()) {
+          walk(fullPath);
+        } else if (entry.isSymbolicLink()) {
+          hash.update(`link:${relativePath}\0${fs.readlinkSync(fullPath)}\0`);
+        } else if (entry.isFile()) {
+          const executable = (fs.statSync(fullPath).mode & 0o111) !== 0;
+          hash.update(`file:${relativePath}:${executable ? 'x' : '-'}\0`);
+          hash.update(fs.readFileSync(fullPath));
+          hash.update('\0');
+        }
+      });
+  };
+  walk(build.context);
+
+  // Args without a value come from the environment at build time
+  const buildArgs = Object.keys(build.buildArgs).sort().map((key) => [key, build.buildArgs[key] ?? process.env[key]]);
+  hash.update(fs.readFileSync(build.dockerfile));
+  hash.update(JSON.stringify({
+    platform: build.platform,
+    target: build.target,
+    buildArgs,
+    labels: Object.keys(build.labels).sort().map((key) => [key, build.labels[key]]),
+  }));
+
+  return hash.digest('hex');
+}
+
+interface RunOptions {
+  cwd?: string;
+  shell?: boolean;
+  // Resolve with stdout instead of streaming it
+  capture?: boolean;
+  // Put before each line of output, like the output of other deploy commands
+  prefix?: string;
+}
+
+/**
+ * Runs a command without blocking the event loop, so other services keep
+ * deploying while an image builds. Rejects when it exits with an error.
+ */
+function run(command: string, args: string[], options: RunOptions = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      shell: options.shell,
+      stdio: options.capture ? ['ignore', 'pipe', 'ignore'] :
+        options.prefix ? ['inherit', 'pipe', 'pipe'] : ['inherit', progressStream(), 'inherit'],
+    });
+    let stdout = '';
+    if (options.capture) {
+      child.stdout?.on('data', (chunk) => {
+        stdout += chunk;
+      });
+    } else if (options.prefix) {
+      prefixLines(child.stdout, progressStream(), options.prefix);
+      prefixLines(child.stderr, process.stderr, options.prefix);
+    }
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`Command failed with ${signal ? `signal ${signal}` : `exit code ${code}`}: ${[command, ...args].join(' ')}`));
+      }
+    });
+  });
+}
+
+export async function getGitSha(cwd: string): Promise<string | undefined> {
+  try {
+    return (await run('git', ['rev-parse', '--short=12', 'HEAD'], { cwd, capture: true })).trim() || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the manifest digest of an image in the registry, or undefined when
+ * the reference doesn't exist (or can't be inspected).
+ */
+async function getRemoteDigest(imageRef: string): Promise<string | undefined> {
+  try {
+    const output = await run(
+      'docker',
+      ['buildx', 'imagetools', 'inspect', imageRef, '--format', '{{json .Manifest}}'],
+      { capture: true }
+    );
+    return JSON.parse(output).digest;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Builds the image and pushes it to ECR. Build failures are raised as the
+ * `build` stage; login and push failures are left to the caller's stage.
+ * `prefix` names the service in status messages and docker's output.
+ */
+export async function buildAndPushDockerImage(
+  ecrConfig: EcrConfig,
+  build: DockerBuildOptions,
+  cwd: string,
+  prefix = ''
+): Promise<PushedImage> {
+  // Check if Dockerfile exists
+  if (!fs.existsSync(build.dockerfile)) {
+    throw new DeployError('build', `Dockerfile not found at ${build.dockerfile}`);
+  }
+  if (!fs.existsSync(build.context) || !fs.statSync(build.context).isDirectory()) {
+    throw new DeployError('build', `Build context not found at ${build.context}`);
+  }
+
+  const repositoryName = ecrConfig.repositoryName;
+  const ecrUri = ecrConfig.ecrRepositoryUri;
+
+  let imageTag = build.imageTag;
+  if (!imageTag) {
+    utils.info(`${prefix}Hashing build context...`);
+    const contentHash = (await runStage('build', async () => hashBuildContext(build))).slice(0, 12);
+    const gitSha = await getGitSha(cwd);
+    imageTag = gitSha ? `${gitSha}-${contentHash}` : `ctx-${contentHash}`;
+  }
+  const fullImageUri = `${ecrUri}:${imageTag}`;
+
+  try {
+    // Step 1: Login to ECR
+    utils.info(`${prefix}Authenticating with AWS ECR...`);
+    await run(ecrConfig.dockerLoginCommand, [], { shell: true, prefix });
+
+    // Content-addressed tags are never reused for different content, so an existing tag is this image
+    if (!build.imageTag) {
+      const existingDigest = await getRemoteDigest(fullImageUri);
+      if (existingDigest) {
+        utils.success(`${prefix}Image ${repositoryName}:${imageTag} is already in ECR, skipping build and push`);
+        return { tag: imageTag, digest: existingDigest, imageUri: `${ecrUri}@${existingDigest}` };
+      }
+    }
+
+    utils.info(`${prefix}Building Docker image: ${repositoryName}:${imageTag}`);
+
+    // Step 2: Build Docker image for Lambda using buildx for cross-platform support
+    utils.info(`${prefix}Building Docker image for Lambda (${build.platform})...`);
+    printProgress(chalk.gray(`${prefix}  Dockerfile: ${path.relative(process.cwd(), build.dockerfile) || build.dockerfile}`));
+    printProgress(chalk.gray(`${prefix}  Context: ${path.relative(process.cwd(), build.context) || '.'}`));
+    if (build.target) {
+      printProgress(chalk.gray(`${prefix}  Target: ${build.target}`));
+    }
+    // Arguments are passed without a shell so build arg values don't need quoting
+    await runStage('build', () => run('docker', dockerBuildArgs(build, `${repositoryName}:${imageTag}`), { prefix }));
+
+    // Step 3: Tag image for ECR
+    utils.info(`${prefix}Tagging image for ECR...`);
+    await run('docker', ['tag', `${repositoryName}:${imageTag}`, fullImageUri], { prefix });
+
+    // Step 4: Push to ECR
+    utils.info(`${prefix}Pushing image to ECR...`);
+    await run('docker', ['push', fullImageUri], { prefix });
+
+    const digest = await getRemoteDigest(fullImageUri);
+    if (!digest) {
+      utils.warn(`${prefix}Could not read the digest of ${fullImageUri}, deploying by tag`);
+    }
+
+    utils.success(`${prefix}Successfully pushed image to ECR: ${fullImageUri}`);
+    return { tag: imageTag, digest, imageUri: digest ? `${ecrUri}@${digest}` : fullImageUri };
+  } catch (error: any) {
+    utils.error(`${prefix}Docker build/push failed: ${error.message}`);
+    throw error;
+  }
+}
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jsonfile from 'jsonfile';
+import { CONFIG_DIR, ConfigManager } from './config';
+import { VafConfig, loadVafConfig } from './project';
+import { EnvironmentsResource } from './sdk';
+import { editDistance } from './utils';
+
+export const ENVIRONMENT_CACHE_FILE = path.join(CONFIG_DIR, 'environment-cache.json');
+
+// Environments rarely change, and a miss always refetches before failing
+export const ENVIRONMENT_CACHE_TTL = 10 * 60 * 1000;
+
+export interface ResolvedEnvironment {
+  id: string;
+  name: string;
+}
+
+interface CachedEnvironments {
+  fetchedAt: number;
+  environments: ResolvedEnvironment[];
+}
+
+interface EnvironmentCacheData {
+  [profile: string]: {
+    // Keyed by project ID
+    [projectId: string]: CachedEnvironments;
+  };
+}
+
+export class EnvironmentNotFoundError extends Error {
+  constructor(
+    public readonly query: string,
+    public readonly projectId: string,
+    public readonly suggestions: ResolvedEnvironment[],
+    available: ResolvedEnvironment[]
+  ) {
+    super(notFoundMessage(query, projectId, suggestions, available));
+    this.name = 'EnvironmentNotFoundError';
+  }
+}
+
+function describe(env: ResolvedEnvironment): string {
+  return `${env.name} (${env.id})`;
+}
+
+function notFoundMessage(
+  query: string,
+  projectId: string,
+  suggestions: ResolvedEnvironment[],
+  available: ResolvedEnvironment[]
+): string {
+  const message = `Environment "${query}" not found in project ${projectId}.`;
+  if (suggestions.length === 1) {
+    return `${message} Did you mean "${suggestions[0].name}"?`;
+  }
+  if (suggestions.length > 1) {
+    return `${message} Did you mean one of: ${suggestions.map(describe).join(', ')}?`;
+  }
+  if (available.length > 0) {
+    return `${message} Available environments: ${available.map(describe).join(', ')}`;
+  }
+  return `${message} The project has no environments.`;
+}
+
+/**
+ * Environments whose name is a typo away from the query, or contains it
+ * (`prod` for `production`), closest first.
+ */
+function closeMatches(query: string, environments: ResolvedEnvironment[]): ResolvedEnvironment[] {
+  const needle = query.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(needle.length / 3));
+
+  return environments
+    .map((env) => {
+      const name = env.name.toLowerCase();
+      const distance = name.includes(needle) || needle.includes(name) ? 0 : editDistance(needle, name);
+      return { env, distance };
+    })
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ env }) => env);
+}
+
+function findEnvironment(query: string, environments: ResolvedEnvironment[]): ResolvedEnvironment | undefined {
+  return environments.find((env) => env.name === query)
+    || environments.find((env) => env.id === query)
+    || environments.find((env) => env.name.toLowerCase() === query.toLowerCase());
+}
+
+/**
+ * Remembers each project's environments per profile, so commands can turn
+ * names into IDs without listing them from the API every time.
+ */
+export class EnvironmentCache {
+  constructor(
+    private readonly filePath: string = ENVIRONMENT_CACHE_FILE,
+    private readonly ttl: number = ENVIRONMENT_CACHE_TTL
+  ) {}
+
+  private load(): EnvironmentCacheData {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        return jsonfile.readFileSync(this.filePath);
+      }
+    } catch (error) {
+      // A corrupt cache only costs an API call
+    }
+    return {};
+  }
+
+  private save(data: EnvironmentCacheData): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+    jsonfile.writeFileSync(this.filePath, data, { spaces: 2 });
+  }
+
+  public get(profile: string, projectId: string): ResolvedEnvironment[] | undefined {
+    const cached = this.load()[profile]?.[projectId];
+    if (!cached || Date.now() - cached.fetchedAt > this.ttl) {
+      return undefined;
+    }
+    return cached.environments;
+  }
+
+  public set(profile: string, projectId: string, environments: ResolvedEnvironment[]): void {
+    const data = this.load();
+    data[profile] = { ...data[profile], [projectId]: { fetchedAt: Date.now(), environments } };
+    this.save(data);
+  }
+
+  public clear(profile: string, projectId: string): void {
+    const data = this.load();
+    if (data[profile] && data[profile][projectId]) {
+      delete data[profile][projectId];
+      this.save(data);
+    }
+  }
+}
+
+/**
+ * Turns an environment reference into the environment's ID and name. The
+ * reference can be a vaf.yml key whose `environment` field points at the
+ * real environment, an environment name (exact, then case-insensitive) or
+ * an ID. Cached environments are used while fresh; when the reference isn't
+ * among them the list is fetched again before giving up with an
+ * EnvironmentNotFoundError that suggests close matches.
+ */
+export async function resolveEnvironment(
+  environments: EnvironmentsResource,
+  reference: string,
+  vafConfig?: VafConfig | null
+): Promise<ResolvedEnvironment> {
+  const projectId = String(environments.projectId);
+  const profile = ConfigManager.getInstance().getProfileName();
+  const cache = new EnvironmentCache();
+
+  // Aliases only apply to the project vaf.yml describes
+  const sameProject = !vafConfig?.id || String(vafConfig.id) === projectId;
+  const alias = sameProject ? vafConfig?.environments?.[reference]?.environment : undefined;
+  const query = alias !== undefined ? String(alias) : reference;
+
+  const cached = cache.get(profile, projectId);
+  const hit = cached && findEnvironment(query, cached);
+  if (hit) {
+    return hit;
+  }
+
+  const fetched = (await environments.list()).map((env) => ({ id: String(env.id), name: env.name }));
+  cache.set(profile, projectId, fetched);
+
+  const environment = findEnvironment(query, fetched);
+  if (!environment) {
+    throw new EnvironmentNotFoundError(query, projectId, closeMatches(query, fetched), fetched);
+  }
+  return environment;
+}
+
+/**
+ * ID of the referenced environment, with aliases read from the vaf.yml in
+ * the working directory.
+ */
+export async function resolveEnvironmentId(environments: EnvironmentsResource, reference: string): Promise<string> {
+  const environment = await resolveEnvironment(environments, reference, loadVafConfig(process.cwd()));
+  return environment.id;
+}
+
+/**
+ * Drops a project's cached environments, after creating or deleting one.
+ */
+export function clearEnvironmentCache(projectId: string): void {
+  new EnvironmentCache().clear(ConfigManager.getInstance().getProfileName(), String(projectId));
+}
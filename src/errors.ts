@@ -0,0 +1,53 @@
+import { SessionExpiredError } from './api';
+import { EXIT_CODES } from './utils';
+
+/**
+ * Exit codes of `vaf deploy` for each stage that can fail, so CI can tell a
+ * broken build from a flaky upload or a failed rollout.
+ */
+const STAGE_EXIT_CODES = {
+  build: EXIT_CODES.BUILD_FAILED,
+  upload: EXIT_CODES.UPLOAD_FAILED,
+  deploy: EXIT_CODES.DEPLOY_FAILED,
+  hook: EXIT_CODES.HOOK_FAILED,
+};
+
+export type DeployStage = keyof typeof STAGE_EXIT_CODES;
+
+export class DeployError extends Error {
+  public readonly exitCode: number;
+
+  constructor(public readonly stage: DeployStage, message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'DeployError';
+    this.exitCode = STAGE_EXIT_CODES[stage];
+  }
+}
+
+/**
+ * Runs one stage of a deploy, so that whatever fails inside it exits with
+ * the stage's code. Errors already tied to a stage keep theirs.
+ */
+export async function runStage<T>(stage: DeployStage, work: () => Promise<T>): Promise<T> {
+  try {
+    return await work();
+  } catch (error: any) {
+    if (error instanceof DeployError || error instanceof SessionExpiredError) {
+      throw error;
+    }
+    throw new DeployError(stage, error?.message || String(error), error);
+  }
+}
+
+/**
+ * Exit code for an error that ends a command. An expired session wins over
+ * the stage it interrupted, so scripts can tell it apart and sign in again.
+ */
+export function exitCodeFor(error: any): number {
+  for (let current = error; current; current = current.cause) {
+    if (current instanceof SessionExpiredError) {
+      return EXIT_CODES.SESSION_EXPIRED;
+    }
+  }
+  return error?.exitCode || 1;
+}
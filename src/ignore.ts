@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const IGNORE_FILE = '.vafignore';
+
+// Used when the project root has no .vafignore
+const DEFAULT_RULES = ['node_modules/', '.git/', '*.log', '.env', '.DS_Store'];
+
+// The bundle is written next to the sources and never belongs in a package
+const BUILTIN_RULES = ['.vaf-bundle/'];
+
+export interface PackageFile {
+  // Relative to the package root, always with forward slashes
+  path: string;
+  size: number;
+  // Set for symlinks kept as links, see `preserveSymlinks`
+  symlink?: boolean;
+}
+
+export interface PackageFilterOptions {
+  // Apply .gitignore files as well, with .vafignore rules taking precedence
+  useGitignore?: boolean;
+  // Rules applied after every ignore file, relative to the package root
+  extraRules?: string[];
+  // Drop every rule that mentions node_modules so dependencies are packaged
+  keepNodeModules?: boolean;
+  // List symlinks that point inside the root as links instead of following
+  // them, so layouts like pnpm's node_modules/.pnpm survive zipping
+  preserveSymlinks?: boolean;
+}
+
+interface IgnoreRule {
+  // Directory the rule was read from, relative to the root ('' for the root)
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+function globToSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      const atEnd = i + 2 === glob.length;
+      if (atStart && glob[i + 2] === '/') {
+        // `**/` matches zero or more directories
+        source += '(?:.*/)?';
+        i += 2;
+        continue;
+      }
+      if (atStart && atEnd) {
+        // Trailing `/**` matches everything inside
+        source += '.*';
+        i += 1;
+        continue;
+      }
+      // Anywhere else `**` is just two single stars
+      source += '[^/]*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      let cls = glob.slice(i + 1, close);
+      if (cls.startsWith('!')) {
+        cls = `^${cls.slice(1)}`;
+      }
+      source += `[${cls.replace(/\\/g, '\\\\')}]`;
+      i = close;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i++;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Parses one line of an ignore file with .gitignore semantics. Returns
+ * undefined for blank lines and comments.
+ */
+function parseRule(line: string, base: string): IgnoreRule | undefined {
+  // Trailing spaces are ignored unless escaped
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return undefined;
+  }
+
+  let negate = false;
+  if (pattern.startsWith('!')) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  const dirOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  if (!pattern) {
+    return undefined;
+  }
+
+  // A slash anywhere but the end anchors the pattern to the ignore file's directory
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+
+  const source = globToSource(pattern);
+  return {
+    base,
+    regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+    negate,
+    dirOnly,
+  };
+}
+
+function parseRules(lines: string[], base: string): IgnoreRule[] {
+  return lines
+    .map((line) => parseRule(line, base))
+    .filter((rule): rule is IgnoreRule => !!rule);
+}
+
+/**
+ * The last rule that matches decides, so deeper ignore files and later lines
+ * override earlier ones, as in git.
+ */
+function isIgnored(rules: IgnoreRule[], relativePath: string, isDir: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+
+    const local = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    if (rule.regex.test(local)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Lists the files that would be packaged from `root`, applying .vafignore
+ * files (root and nested) with .gitignore semantics. Like git, a file inside
+ * an excluded directory can't be re-included.
+ */
+export function listPackageFiles(root: string, options: PackageFilterOptions = {}): PackageFile[] {
+  const builtins = parseRules(BUILTIN_RULES, '');
+  const extra = parseRules(options.extraRules || [], '');
+  const ignoreFiles = options.useGitignore ? ['.gitignore', IGNORE_FILE] : [IGNORE_FILE];
+
+  const loadDirRules = (dir: string, base: string): IgnoreRule[] => {
+    const rules: IgnoreRule[] = [];
+    ignoreFiles.forEach((fileName) => {
+      const file = path.join(dir, fileName);
+      let lines: string[];
+      if (fs.existsSync(file)) {
+        lines = fs.readFileSync(file, 'utf-8').split(/\r?\n/);
+      } else if (!base && fileName === IGNORE_FILE) {
+        lines = DEFAULT_RULES;
+      } else {
+        return;
+      }
+      if (options.keepNodeModules) {
+        lines = lines.filter((line) => !line.includes('node_modules'));
+      }
+      rules.push(...parseRules(lines, base));
+    });
+    return rules;
+  };
+
+  const files: PackageFile[] = [];
+  const realRoot = fs.realpathSync(root);
+
+  const walk = (dir: string, base: string, inherited: IgnoreRule[], ancestors: string[]) => {
+    // Symlinked directories are followed unless they point back up the tree
+    const realDir = fs.realpathSync(dir);
+    if (ancestors.includes(realDir)) return;
+
+    const rules = [...inherited, ...loadDirRules(dir, base)];
+    const entries = fs.readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = base ? `${base}/${entry.name}` : entry.name;
+
+      let stats: fs.Stats;
+      try {
+        stats = entry.isSymbolicLink() ? fs.statSync(fullPath) : fs.lstatSync(fullPath);
+      } catch (error) {
+        // Dangling symlink
+        continue;
+      }
+      const isDir = stats.isDirectory();
+
+      if (isIgnored(builtins, relativePath, isDir)) continue;
+      if (isIgnored([...rules, ...extra], relativePath, isDir)) continue;
+
+      if (entry.isSymbolicLink() && options.preserveSymlinks) {
+        const target = fs.realpathSync(fullPath);
+        if (target.startsWith(`${realRoot}${path.sep}`)) {
+          files.push({ path: relativePath, size: 0, symlink: true });
+          continue;
+        }
+      }
+
+      if (isDir) {
+        walk(fullPath, relativePath, rules, [...ancestors, realDir]);
+      } else if (stats.isFile()) {
+        files.push({ path: relativePath, size: stats.size });
+      }
+    }
+  };
+
+  walk(root, '', [], []);
+  return files;
+}
+
+/**
+ * Filter options for the function package: node_modules is left out when it
+ * ships as a layer, and packaged regardless of ignore rules otherwise.
+ * `ignore` holds the `ignore:` rules from vaf.yml.
+ */
+export function functionPackageOptions(useLayers: boolean, useGitignore?: boolean, ignore: string[] = []): PackageFilterOptions {
+  return useLayers
+    ? { useGitignore, extraRules: ['/node_modules/', ...ignore], preserveSymlinks: true }
+    : { useGitignore, extraRules: ignore, keepNodeModules: true, preserveSymlinks: true };
+}
@@ -1,23 +1,78 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import * as chalk from 'chalk';
+import chalk from 'chalk';
 import { loginCommand, logoutCommand, whoamiCommand } from './commands/auth';
 import initCommand from './commands/init';
 import projectsCommand from './commands/projects';
 import envCommand from './commands/env';
+import useCommand from './commands/use';
+import validateCommand from './commands/validate';
 import varsCommand from './commands/envvars';
 import deployCommand from './commands/deploy';
+import packageCommand from './commands/package';
+import deploymentsCommand from './commands/deployments';
+import logsCommand from './commands/logs';
 import configCommand from './commands/config';
 import databasesCommand from './commands/databases';
 import cachesCommand from './commands/caches';
+import { setOutputFormat } from './output';
+import { ConfigManager } from './config';
+import { loadVafConfig } from './project';
+import { SessionExpiredError } from './api';
+import { exitCodeFor } from './errors';
 
 const program = new Command();
 
+// Commands that work without the profile pinned in vaf.yml, so a missing one can be created
+const PROFILE_SETUP_COMMANDS = ['config', 'validate', 'login'];
+
+function topLevelCommand(command: Command): Command {
+  while (command.parent && command.parent !== program) {
+    command = command.parent;
+  }
+  return command;
+}
+
+function vafConfigProfile(): string | undefined {
+  try {
+    return loadVafConfig(process.cwd())?.profile;
+  } catch (error) {
+    // An invalid vaf.yml is reported by the commands that read it, and by `vaf validate`
+    return undefined;
+  }
+}
+
 program
   .name('vaf')
   .description('VAF CLI - Command-line interface for VAF backend API')
-  .version('0.1.1');
+  .version('0.1.1')
+  .option('-o, --output <format>', 'Output format: table, json or yaml', process.env.VAF_OUTPUT || 'table')
+  .option('-p, --profile <name>', 'Configuration profile to use (overrides VAF_PROFILE and vaf.yml)')
+  .hook('preAction', (_command, actionCommand) => {
+    try {
+      const globals = actionCommand.optsWithGlobals();
+      setOutputFormat(globals.output);
+
+      // Profile priority: --profile > VAF_PROFILE > vaf.yml profile > saved current profile
+      const explicit = globals.profile || process.env.VAF_PROFILE;
+      const profile = explicit || vafConfigProfile();
+      if (profile) {
+        const config = ConfigManager.getInstance();
+        const setup = PROFILE_SETUP_COMMANDS.includes(topLevelCommand(actionCommand).name());
+        if (!explicit && setup && !config.hasProfile(profile)) {
+          return;
+        }
+        if (!config.hasProfile(profile)) {
+          throw new Error(`Unknown profile "${profile}". Run "vaf config profiles add ${profile}" to create it`);
+        }
+        config.setActiveProfile(profile);
+      }
+    } catch (error: any) {
+      console.error(chalk.red('✖ Error:'), error.message);
+      process.exit(1);
+    }
+  });
 
 // Project initialization
 program.addCommand(initCommand);
@@ -33,9 +88,13 @@ program.addCommand(projectsCommand);
 // Environment commands
 envCommand.addCommand(varsCommand);
 program.addCommand(envCommand);
+program.addCommand(useCommand);
 
 // Deployment commands
 program.addCommand(deployCommand);
+program.addCommand(packageCommand);
+program.addCommand(deploymentsCommand);
+program.addCommand(logsCommand);
 
 // Database and cache management
 program.addCommand(databasesCommand);
@@ -43,6 +102,7 @@ program.addCommand(cachesCommand);
 
 // Configuration commands
 program.addCommand(configCommand);
+program.addCommand(validateCommand);
 
 // Handle uncaught errors gracefully
 process.on('uncaughtException', (error) => {
@@ -51,8 +111,12 @@ process.on('uncaughtException', (error) => {
 });
 
 process.on('unhandledRejection', (reason: any) => {
-  console.error(chalk.red('Unhandled Rejection:'), reason?.message || reason);
-  process.exit(1);
+  if (reason instanceof SessionExpiredError) {
+    console.error(chalk.red('✖ Error:'), reason.message);
+  } else {
+    console.error(chalk.red('Unhandled Rejection:'), reason?.message || reason);
+  }
+  process.exit(exitCodeFor(reason));
 });
 
 program.parse();
@@ -0,0 +1,77 @@
+import { execFileSync } from 'child_process';
+
+// `${env:NAME}` or `${git:sha}`; `$${...}` is left as a literal `${...}`
+const PLACEHOLDER = /\$(\$?)\{(env|git):([^}]*)\}/g;
+
+const GIT_VALUES: { [name: string]: string[] } = {
+  sha: ['rev-parse', 'HEAD'],
+  // Same length as the SHA in generated Docker image tags
+  short: ['rev-parse', '--short=12', 'HEAD'],
+  branch: ['rev-parse', '--abbrev-ref', 'HEAD'],
+};
+
+// Read once per command, the repository doesn't change while it runs
+const gitCache = new Map<string, string>();
+
+function readGit(name: string, cwd: string): string {
+  const key = `${cwd}\0${name}`;
+  const cached = gitCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const args = GIT_VALUES[name];
+  if (!args) {
+    throw new Error(`unknown value \${git:${name}} (expected one of ${Object.keys(GIT_VALUES).map((key) => `\${git:${key}}`).join(', ')})`);
+  }
+  let value: string;
+  try {
+    value = execFileSync('git', args, { cwd, stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim();
+  } catch (error) {
+    throw new Error(`\${git:${name}} needs a git repository with at least one commit`);
+  }
+  gitCache.set(key, value);
+  return value;
+}
+
+/**
+ * Replaces `${env:NAME}` with the environment variable and `${git:sha}`,
+ * `${git:short}` or `${git:branch}` with the state of the repository in
+ * `cwd`, in every string inside `value`. Unset variables are an error
+ * rather than an empty string. `path` names the value in error messages.
+ */
+export function interpolate<T>(value: T, cwd: string, path = ''): T {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER, (match, escaped: string, provider: string, name: string) => {
+      if (escaped) {
+        return match.slice(1);
+      }
+      try {
+        if (provider === 'env') {
+          const variable = process.env[name];
+          if (variable === undefined) {
+            throw new Error(`environment variable ${name} is not set`);
+          }
+          return variable;
+        }
+        return readGit(name, cwd);
+      } catch (error: any) {
+        throw new Error(`${path ? `${path}: ` : ''}${error.message}`);
+      }
+    }) as unknown as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolate(item, cwd, `${path}[${index}]`)) as unknown as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const result: any = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      result[key] = interpolate(entry, cwd, path ? `${path}.${key}` : key);
+    });
+    return result;
+  }
+
+  return value;
+}
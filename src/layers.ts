@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as jsonfile from 'jsonfile';
+import { CONFIG_DIR } from './config';
+import { runtimeFamily } from './runtime';
+import { PYTHON_DEPENDENCY_FILES } from './python';
+
+export const LAYER_CACHE_FILE = path.join(CONFIG_DIR, 'layer-cache.json');
+
+const LOCKFILES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lock',
+  'bun.lockb',
+];
+
+export interface CachedLayer {
+  hash: string;
+  layerArn: string;
+  layerVersion: number;
+  publishedAt: string;
+}
+
+interface LayerCacheData {
+  [profile: string]: {
+    // Keyed by `<project-id>/<environment-id>`, plus `/<service>` for services
+    [target: string]: CachedLayer;
+  };
+}
+
+function readPackageVersion(packageDir: string): string {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8')).version || '';
+  } catch (error) {
+    return '';
+  }
+}
+
+/**
+ * Records every installed package as `path@version`, following nested
+ * node_modules. Symlinks (pnpm, workspaces) are recorded by their target.
+ */
+function collectInstalledPackages(nodeModules: string, prefix: string, out: string[]): void {
+  if (!fs.existsSync(nodeModules)) {
+    return;
+  }
+
+  const entries = fs.readdirSync(nodeModules, { withFileTypes: true })
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  entries.forEach((entry) => {
+    if (entry.name.startsWith('.')) {
+      return;
+    }
+    const fullPath = path.join(nodeModules, entry.name);
+    const name = `${prefix}${entry.name}`;
+
+    if (entry.name.startsWith('@') && entry.isDirectory()) {
+      collectInstalledPackages(fullPath, `${name}/`, out);
+    } else if (entry.isSymbolicLink()) {
+      out.push(`${name}->${fs.readlinkSync(fullPath)}@${readPackageVersion(fullPath)}`);
+    } else if (entry.isDirectory()) {
+      out.push(`${name}@${readPackageVersion(fullPath)}`);
+      collectInstalledPackages(path.join(fullPath, 'node_modules'), `${name}/node_modules/`, out);
+    }
+  });
+}
+
+/**
+ * Hashes what ends up in the dependency layer: the lockfiles, the installed
+ * package tree and the runtime the native modules were built for. With
+ * `only`, just those package directories (relative to node_modules) count,
+ * as in bundle mode where the layer holds the externals alone. Python layers
+ * are installed by the deploy, so only their requirement files count.
+ */
+export function hashDependencies(cwd: string, runtime: string, only?: string[]): string {
+  const hash = crypto.createHash('sha256');
+  hash.update(`runtime:${runtime}\0`);
+
+  const isPython = runtimeFamily(runtime) === 'python';
+  (isPython ? PYTHON_DEPENDENCY_FILES : LOCKFILES).forEach((lockfile) => {
+    const lockfilePath = path.join(cwd, lockfile);
+    if (fs.existsSync(lockfilePath)) {
+      hash.update(`lockfile:${lockfile}\0`);
+      hash.update(fs.readFileSync(lockfilePath));
+      hash.update('\0');
+    }
+  });
+  if (isPython) {
+    return hash.digest('hex');
+  }
+
+  const nodeModules = path.join(cwd, 'node_modules');
+  const packages: string[] = [];
+  if (only) {
+    hash.update(`packages:${only.length}\0`);
+    [...only].sort().forEach((packagePath) => {
+      const packageDir = path.join(nodeModules, packagePath);
+      packages.push(`${packagePath}@${readPackageVersion(packageDir)}`);
+      collectInstalledPackages(path.join(packageDir, 'node_modules'), `${packagePath}/node_modules/`, packages);
+    });
+  } else {
+    collectInstalledPackages(nodeModules, '', packages);
+  }
+  hash.update(packages.join('\n'));
+
+  return hash.digest('hex');
+}
+
+/**
+ * Remembers the last layer published for each environment (and service) so
+ * deploys with unchanged dependencies can reuse it instead of uploading a
+ * new one.
+ */
+export class LayerCache {
+  constructor(private readonly filePath: string = LAYER_CACHE_FILE) {}
+
+  private static key(projectId: string, environmentId: string, service?: string): string {
+    return service ? `${projectId}/${environmentId}/${service}` : `${projectId}/${environmentId}`;
+  }
+
+  private load(): LayerCacheData {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        return jsonfile.readFileSync(this.filePath);
+      }
+    } catch (error) {
+      // A corrupt cache only costs a layer upload
+    }
+    return {};
+  }
+
+  public get(profile: string, projectId: string, environmentId: string, service?: string): CachedLayer | undefined {
+    const profileCache = this.load()[profile];
+    return profileCache ? profileCache[LayerCache.key(projectId, environmentId, service)] : undefined;
+  }
+
+  public set(profile: string, projectId: string, environmentId: string, layer: CachedLayer, service?: string): void {
+    const data = this.load();
+    data[profile] = { ...data[profile], [LayerCache.key(projectId, environmentId, service)]: layer };
+
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+    jsonfile.writeFileSync(this.filePath, data, { spaces: 2 });
+  }
+
+  public clear(profile: string, projectId: string, environmentId: string, service?: string): void {
+    const data = this.load();
+    const key = LayerCache.key(projectId, environmentId, service);
+    if (data[profile] && data[profile][key]) {
+      delete data[profile][key];
+      jsonfile.writeFileSync(this.filePath, data, { spaces: 2 });
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import chalk from 'chalk';
+import * as yaml from 'js-yaml';
+import * as readline from 'readline';
+import { Readable } from 'stream';
+
+export type OutputFormat = 'table' | 'json' | 'yaml';
+
+export interface Column<T = any> {
+  header: string;
+  value: (row: T) => any;
+  colour?: (text: string, row: T) => string;
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'yaml'];
+const MIN_COLUMN_WIDTH = 8;
+const COLUMN_GAP = '  ';
+
+let currentFormat: OutputFormat = 'table';
+
+export function setOutputFormat(format: string): void {
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new Error(`Unknown output format "${format}" (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  currentFormat = format as OutputFormat;
+}
+
+export function getOutputFormat(): OutputFormat {
+  return currentFormat;
+}
+
+/**
+ * True when stdout must only carry data (json or yaml), so callers can skip
+ * decorative headings and hints.
+ */
+export function isStructured(): boolean {
+  return currentFormat !== 'table';
+}
+
+/**
+ * Where progress output of a long-running command like a deploy goes: stdout,
+ * or stderr with structured output so stdout only carries the result.
+ */
+export function progressStream(): NodeJS.WriteStream {
+  return isStructured() ? process.stderr : process.stdout;
+}
+
+export function printProgress(text: string): void {
+  progressStream().write(`${text}\n`);
+}
+
+/**
+ * Copies a child process's output line by line with a prefix, so output of
+ * services deploying side by side can be told apart.
+ */
+export function prefixLines(input: Readable | null, output: NodeJS.WriteStream, prefix: string): void {
+  if (input) {
+    readline.createInterface({ input, crlfDelay: Infinity }).on('line', (line) => output.write(`${prefix}${line}\n`));
+  }
+}
+
+export function printData(data: any): void {
+  if (currentFormat === 'yaml') {
+    process.stdout.write(yaml.dump(data, { lineWidth: -1 }));
+  } else {
+    console.log(JSON.stringify(data, null, 2));
+  }
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function toCell(value: any): string {
+  if (value === undefined || value === null || value === '') return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? text.slice(0, width - 1) + '…' : text;
+}
+
+function fitWidths(widths: number[]): number[] {
+  // Only constrain when writing to a terminal; piped output keeps full values
+  const terminalWidth = process.stdout.isTTY ? process.stdout.columns : undefined;
+  if (!terminalWidth) return widths;
+
+  const fitted = [...widths];
+  const total = () => fitted.reduce((sum, w) => sum + w, 0) + COLUMN_GAP.length * (fitted.length - 1);
+
+  while (total() > terminalWidth) {
+    const widest = fitted.indexOf(Math.max(...fitted));
+    if (fitted[widest] <= MIN_COLUMN_WIDTH) break;
+    fitted[widest] = Math.max(MIN_COLUMN_WIDTH, fitted[widest] - (total() - terminalWidth));
+  }
+  return fitted;
+}
+
+export function printTable<T>(rows: T[], columns: Column<T>[]): void {
+  const cells = rows.map((row) => columns.map((column) => toCell(column.value(row))));
+  const widths = fitWidths(
+    columns.map((column, i) =>
+      Math.max(column.header.length, ...cells.map((rowCells) => stripAnsi(rowCells[i]).length))
+    )
+  );
+
+  const header = columns
+    .map((column, i) => truncate(column.header.toUpperCase(), widths[i]).padEnd(widths[i]))
+    .join(COLUMN_GAP);
+  console.log(chalk.bold(header.trimEnd()));
+
+  cells.forEach((rowCells, rowIndex) => {
+    const line = rowCells.map((cell, i) => {
+      const text = truncate(cell, widths[i]);
+      const padding = ' '.repeat(widths[i] - text.length);
+      const colour = columns[i].colour;
+      return (colour ? colour(text, rows[rowIndex]) : text) + padding;
+    });
+    console.log(line.join(COLUMN_GAP).trimEnd());
+  });
+}
+
+/**
+ * Prints a collection. Structured formats always print the raw rows (an empty
+ * array included); table mode prints aligned columns or the empty message.
+ */
+export function printList<T>(rows: T[], columns: Column<T>[], emptyMessage: string): void {
+  if (isStructured()) {
+    printData(rows);
+    return;
+  }
+
+  if (rows.length === 0) {
+    console.error(chalk.blue('ℹ'), emptyMessage);
+    return;
+  }
+
+  printTable(rows, columns);
+}
+
+/**
+ * Prints a single resource. Table mode shows the given fields as labelled
+ * lines under a heading, or the whole object as JSON when no fields are given.
+ */
+export function printDetails<T>(item: T, title: string, fields?: Column<T>[]): void {
+  if (isStructured()) {
+    printData(item);
+    return;
+  }
+
+  console.log(chalk.bold(`\n${title}:`));
+  console.log(chalk.gray('───────────────────────────'));
+
+  if (!fields) {
+    console.log(JSON.stringify(item, null, 2));
+    return;
+  }
+
+  fields.forEach((field) => {
+    const value = field.value(item);
+    if (value === undefined || value === null) return;
+    const text = toCell(value);
+    console.log(chalk.cyan(`${field.header}:`), field.colour ? field.colour(text, item) : text);
+  });
+  console.log();
+}
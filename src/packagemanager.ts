@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+
+export type PackageManagerName = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+export const PACKAGE_MANAGERS: PackageManagerName[] = ['npm', 'pnpm', 'yarn', 'bun'];
+
+const LOCKFILES: { [name in PackageManagerName]: string[] } = {
+  npm: ['package-lock.json', 'npm-shrinkwrap.json'],
+  pnpm: ['pnpm-lock.yaml'],
+  yarn: ['yarn.lock'],
+  bun: ['bun.lock', 'bun.lockb'],
+};
+
+// Registry and install settings a production install may depend on
+const CONFIG_FILES: { [name in PackageManagerName]: string[] } = {
+  npm: ['.npmrc'],
+  pnpm: ['.npmrc', '.pnpmfile.cjs'],
+  yarn: ['.npmrc', '.yarnrc', '.yarnrc.yml'],
+  bun: ['.npmrc', 'bunfig.toml'],
+};
+
+export interface PackageManager {
+  name: PackageManagerName;
+  // Major version from the `packageManager` field, when known
+  majorVersion?: number;
+  source: 'vaf.yml' | 'packageManager' | 'lockfile' | 'default';
+  // Directory holding the lockfile: the project, or a workspace root above it
+  root: string;
+  lockfile?: string;
+}
+
+function readPackageJson(dir: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// `pnpm@9.1.0+sha512...` -> pnpm, 9
+function parsePackageManagerField(value: unknown): { name: PackageManagerName; majorVersion?: number } | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const match = /^(npm|pnpm|yarn|bun)(?:@(\d+))?/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return {
+    name: match[1] as PackageManagerName,
+    majorVersion: match[2] ? parseInt(match[2], 10) : undefined,
+  };
+}
+
+function findLockfile(dir: string, names: PackageManagerName[] = PACKAGE_MANAGERS): { name: PackageManagerName; lockfile: string } | undefined {
+  for (const name of names) {
+    const lockfile = LOCKFILES[name].find((file) => fs.existsSync(path.join(dir, file)));
+    if (lockfile) {
+      return { name, lockfile };
+    }
+  }
+  return undefined;
+}
+
+function isWorkspaceRoot(dir: string): boolean {
+  return fs.existsSync(path.join(dir, 'pnpm-workspace.yaml')) || !!readPackageJson(dir)?.workspaces;
+}
+
+/**
+ * Detects the package manager of the project in `cwd`. An override from
+ * vaf.yml wins; otherwise the `packageManager` field of package.json, then the
+ * lockfile decides. Workspace members are resolved from the workspace root
+ * above them, where the lockfile lives.
+ */
+export function detectPackageManager(cwd: string, override?: PackageManagerName): PackageManager {
+  if (override && !PACKAGE_MANAGERS.includes(override)) {
+    throw new Error(`Unknown package manager "${override}" (expected one of ${PACKAGE_MANAGERS.join(', ')})`);
+  }
+
+  // The project itself, then workspace roots up to the repository root
+  const dirs: string[] = [];
+  for (let dir = path.resolve(cwd); ; dir = path.dirname(dir)) {
+    if (dir === path.resolve(cwd) || isWorkspaceRoot(dir)) {
+      dirs.push(dir);
+    }
+    if (fs.existsSync(path.join(dir, '.git')) || path.dirname(dir) === dir) {
+      break;
+    }
+  }
+
+  for (const dir of dirs) {
+    const field = parsePackageManagerField(readPackageJson(dir)?.packageManager);
+    const name = override || field?.name;
+    const found = findLockfile(dir, name ? [name] : undefined);
+
+    if (name && (found || field)) {
+      return {
+        name,
+        majorVersion: field && field.name === name ? field.majorVersion : undefined,
+        source: override ? 'vaf.yml' : 'packageManager',
+        root: dir,
+        lockfile: found?.lockfile,
+      };
+    }
+    if (found) {
+      return { name: found.name, source: 'lockfile', root: dir, lockfile: found.lockfile };
+    }
+  }
+
+  return { name: override || 'npm', source: override ? 'vaf.yml' : 'default', root: path.resolve(cwd) };
+}
+
+/**
+ * True when the lockfile belongs to a workspace root above the project.
+ */
+export function isWorkspaceMember(pm: PackageManager, cwd: string): boolean {
+  return pm.root !== path.resolve(cwd);
+}
+
+// From the `packageManager` field, or the yarn on the PATH (corepack picks the project's)
+function yarnMajorVersion(pm: PackageManager, cwd: string): number | undefined {
+  if (pm.majorVersion !== undefined) {
+    return pm.majorVersion;
+  }
+  try {
+    const version = execFileSync('yarn', ['--version'], { cwd, stdio: ['ignore', 'pipe', 'ignore'], timeout: 10000 });
+    return parseInt(version.toString(), 10) || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function readYarnrc(pm: PackageManager, cwd: string): string | undefined {
+  const file = [pm.root, cwd].map((dir) => path.join(dir, '.yarnrc.yml')).find((candidate) => fs.existsSync(candidate));
+  return file ? fs.readFileSync(file, 'utf-8') : undefined;
+}
+
+/**
+ * Yarn 2+ has no `--production` install. `workspaces focus` installs
+ * production dependencies only, it is built into Yarn 4 and comes from the
+ * workspace-tools plugin in Yarn 2 and 3.
+ */
+function yarnInstallCommand(pm: PackageManager, cwd: string, frozen: boolean): string {
+  const majorVersion = yarnMajorVersion(pm, cwd);
+  const yarnrc = readYarnrc(pm, cwd);
+  const berry = majorVersion !== undefined ? majorVersion >= 2 : yarnrc !== undefined;
+  if (!berry) {
+    return `yarn install --production --non-interactive${frozen ? ' --frozen-lockfile' : ''}`;
+  }
+  if ((majorVersion !== undefined && majorVersion >= 4) || /plugin-workspace-tools/.test(yarnrc || '')) {
+    return 'yarn workspaces focus --all --production';
+  }
+  throw new Error(
+    `Yarn ${majorVersion ?? '2+'} needs the workspace-tools plugin to install production dependencies only, ` +
+    'add it with "yarn plugin import workspace-tools"'
+  );
+}
+
+/**
+ * Command that installs production dependencies only, from the lockfile when
+ * there is one. Throws when the package manager can't do that.
+ */
+export function installCommand(pm: PackageManager, cwd: string): string {
+  const frozen = !!pm.lockfile;
+  switch (pm.name) {
+    case 'pnpm':
+      return `pnpm install --prod${frozen ? ' --frozen-lockfile' : ''}`;
+    case 'yarn':
+      return yarnInstallCommand(pm, cwd, frozen);
+    case 'bun':
+      return `bun install --production${frozen ? ' --frozen-lockfile' : ''}`;
+    default:
+      return `npm ${frozen ? 'ci' : 'install'} --omit=dev --no-audit --no-fund`;
+  }
+}
+
+/**
+ * Command that removes dev dependencies from an existing node_modules, when
+ * the package manager has one.
+ */
+export function pruneCommand(pm: PackageManager): string | undefined {
+  switch (pm.name) {
+    case 'npm':
+      return 'npm prune --omit=dev --no-audit --no-fund';
+    case 'pnpm':
+      return 'pnpm prune --prod';
+    default:
+      return undefined;
+  }
+}
+
+export function runScriptCommand(pm: PackageManager, script: string): string {
+  return `${pm.name} run ${script}`;
+}
+
+/**
+ * Files the install reads: package.json, the lockfile and the package
+ * manager's config files. Workspace members are installed from the
+ * workspace root, so only their package.json is needed.
+ */
+export function installFiles(pm: PackageManager, cwd: string): string[] {
+  if (isWorkspaceMember(pm, cwd)) {
+    return ['package.json'];
+  }
+  return ['package.json', ...(pm.lockfile ? [pm.lockfile] : []), ...CONFIG_FILES[pm.name]];
+}
@@ -0,0 +1,377 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import * as utils from './utils';
+import { ConfigManager } from './config';
+import { VafConfigError, validateVafConfig } from './configschema';
+import { interpolate } from './interpolate';
+import { PackageManagerName } from './packagemanager';
+
+export interface BuildCommand {
+  command: string;
+  // Warn and keep deploying when the command fails
+  continueOnError?: boolean;
+}
+
+export interface EnvironmentConfig {
+  // Name or ID of the environment on the platform, when the key is an alias for it
+  environment?: string | number;
+  // Another environment in vaf.yml to take settings from
+  extends?: string;
+  runtime?: string;
+  memory?: number;
+  timeout?: number;
+  database?: string;
+  cache?: string;
+  storage?: string;
+  handler?: string;
+  useLayers?: boolean;
+  useGitignore?: boolean;
+  bundle?: boolean;
+  externals?: string[];
+  packageManager?: PackageManagerName;
+  dockerfile?: string;
+  imageTag?: string;
+  buildContext?: string;
+  buildTarget?: string;
+  buildArgs?: { [key: string]: string | number | boolean };
+  buildSecrets?: string[];
+  labels?: { [key: string]: string };
+  platform?: string;
+  cacheFrom?: string;
+  cacheTo?: string;
+  // Extra .vafignore rules for the package, relative to the package root
+  ignore?: string[];
+  build?: Array<string | BuildCommand>;
+  deploy?: string[];
+  // Functions deployed separately from one environment, by name
+  services?: { [name: string]: ServiceConfig };
+}
+
+export interface ServiceConfig extends Omit<EnvironmentConfig, 'environment' | 'extends' | 'services'> {
+  // Directory to build and package, relative to vaf.yml (default: .)
+  root?: string;
+}
+
+/**
+ * One function to deploy: a service, or the whole environment when it has
+ * no services.
+ */
+export interface ServiceTarget {
+  service?: string;
+  // Absolute directory to build and package from
+  root: string;
+  config: EnvironmentConfig;
+}
+
+export interface VafConfig {
+  id: number;
+  name: string;
+  profile?: string;
+  // Settings every environment starts from
+  defaults?: EnvironmentConfig;
+  environments: {
+    [key: string]: EnvironmentConfig;
+  };
+}
+
+export interface ProjectTarget {
+  projectId: string;
+  envName: string;
+  envConfig?: EnvironmentConfig;
+}
+
+export interface CommandTarget {
+  projectId: string;
+  // Only set for commands that take an environment
+  envName?: string;
+  // The arguments after the project and environment
+  args: string[];
+}
+
+export interface CommandTargetSpec {
+  env?: boolean;
+  // Arguments that must follow the target, and how many more may
+  required?: number;
+  optional?: number;
+}
+
+const CONFIG_FILES = ['vaf.yml'];
+
+/**
+ * Path of the nearest vaf.yml, looking in `cwd` and then its parents.
+ */
+export function findVafConfigFile(cwd: string): string | undefined {
+  for (let dir = path.resolve(cwd); ; dir = path.dirname(dir)) {
+    const configFile = CONFIG_FILES.find((name) => fs.existsSync(path.join(dir, name)));
+    if (configFile) {
+      return path.join(dir, configFile);
+    }
+    if (path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Directory of the nearest vaf.yml.
+ */
+export function findProjectRoot(cwd: string): string | undefined {
+  const configFile = findVafConfigFile(cwd);
+  return configFile ? path.dirname(configFile) : undefined;
+}
+
+/**
+ * Loads the nearest vaf.yml, checked against the schema. Throws a
+ * VafConfigError listing every problem with its line and column.
+ */
+export function loadVafConfig(cwd: string): VafConfig | null {
+  const filePath = findVafConfigFile(cwd);
+  if (!filePath) {
+    return null;
+  }
+
+  const { config, issues } = validateVafConfig(fs.readFileSync(filePath, 'utf-8'), filePath);
+  if (issues.length > 0) {
+    throw new VafConfigError(filePath, issues);
+  }
+  return config as VafConfig;
+}
+
+/**
+ * Splits the positional arguments of a command that takes `[project-id]
+ * [env]` followed by `required` (and up to `optional` more) arguments. The
+ * project defaults to the `id` of the nearest vaf.yml and the environment to
+ * the one set with `vaf use`. When vaf.yml has an `id`, the first argument
+ * is the environment unless every argument is given; the environment is
+ * filled before the optional arguments.
+ */
+export function resolveCommandTarget(
+  args: Array<string | undefined>,
+  spec: CommandTargetSpec & { env: true }
+): CommandTarget & { envName: string };
+export function resolveCommandTarget(args: Array<string | undefined>, spec?: CommandTargetSpec): CommandTarget;
+export function resolveCommandTarget(
+  args: Array<string | undefined>,
+  spec: CommandTargetSpec = {}
+): CommandTarget {
+  const given = args.filter((arg): arg is string => arg !== undefined);
+  const required = spec.required || 0;
+  const optional = spec.optional || 0;
+  const maxLeading = spec.env ? 2 : 1;
+
+  const yamlProjectId = loadVafConfig(process.cwd())?.id;
+  const extra = given.length - required;
+  let leading: number;
+  if (!yamlProjectId) {
+    leading = Math.min(maxLeading, extra);
+  } else if (spec.env && extra > 0) {
+    // The project is only given when every optional argument is
+    leading = Math.min(maxLeading, Math.max(1, extra - optional));
+  } else {
+    leading = Math.max(0, extra - optional);
+  }
+
+  if (leading < 0 || given.length - leading < required) {
+    throw new Error('Missing required arguments, see --help');
+  }
+  if (leading > maxLeading || given.length - leading > required + optional) {
+    throw new Error('Too many arguments');
+  }
+
+  let projectId: string | undefined;
+  let envName: string | undefined;
+  if (spec.env && leading === 1 && yamlProjectId) {
+    envName = given[0];
+  } else {
+    projectId = leading > 0 ? given[0] : undefined;
+    envName = leading > 1 ? given[1] : undefined;
+  }
+
+  projectId = projectId || (yamlProjectId ? String(yamlProjectId) : undefined);
+  if (!projectId) {
+    throw new Error('Project ID is required. Pass it as an argument or run the command in a directory with a vaf.yml that has an id');
+  }
+
+  if (spec.env) {
+    envName = envName || ConfigManager.getInstance().getEnvironment();
+    if (!envName) {
+      throw new Error('Environment is required. Pass it as an argument or set a current environment with "vaf use <env>"');
+    }
+  }
+
+  return { projectId, envName, args: given.slice(leading) };
+}
+
+// Settings that belong to one environment and are never inherited
+const NOT_INHERITED: Array<keyof EnvironmentConfig> = ['environment', 'extends'];
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merges `override` into `base`: maps are merged key by key, anything else
+ * (including lists) is replaced.
+ */
+function deepMerge<T extends object>(base: T, override: T): T {
+  const result: any = { ...base };
+  Object.entries(override).forEach(([key, value]) => {
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? deepMerge(result[key], value) : value;
+  });
+  return result;
+}
+
+/**
+ * The settings of `envName` after merging it over the environment it
+ * `extends`, or over `defaults` when it extends nothing.
+ */
+export function mergeEnvironmentConfig(vafConfig: VafConfig, envName: string, seen: string[] = []): EnvironmentConfig {
+  const own = vafConfig.environments[envName];
+  if (!own) {
+    throw new Error(`Environment "${envName}" not found in vaf.yml`);
+  }
+  if (seen.includes(envName)) {
+    throw new Error(`Environment "${envName}" extends itself: ${[...seen, envName].join(' -> ')}`);
+  }
+
+  const parent = own.extends
+    ? mergeEnvironmentConfig(vafConfig, own.extends, [...seen, envName])
+    : { ...vafConfig.defaults };
+  NOT_INHERITED.forEach((key) => delete parent[key]);
+
+  const merged = deepMerge(parent, own);
+  delete merged.extends;
+  return merged;
+}
+
+// Run once per environment rather than once per service
+const NOT_INHERITED_BY_SERVICES: Array<keyof EnvironmentConfig> = ['environment', 'services', 'build', 'deploy'];
+
+/**
+ * The functions to deploy for an environment: each service merged over the
+ * environment's settings, or the environment itself when it has no
+ * services. `only` picks a single service by name.
+ */
+export function resolveServiceTargets(
+  envConfig: EnvironmentConfig | undefined,
+  projectRoot: string,
+  only?: string
+): ServiceTarget[] {
+  const services = envConfig?.services || {};
+  const names = Object.keys(services);
+
+  if (names.length === 0) {
+    if (only) {
+      throw new Error(`--service needs a services: map for the environment in vaf.yml`);
+    }
+    return [{ root: projectRoot, config: envConfig || {} }];
+  }
+  if (only && !names.includes(only)) {
+    throw new Error(`Service "${only}" not found in vaf.yml. Available services: ${names.join(', ')}`);
+  }
+
+  const shared: EnvironmentConfig = { ...envConfig };
+  NOT_INHERITED_BY_SERVICES.forEach((key) => delete shared[key]);
+
+  return names.filter((name) => !only || name === only).map((name) => {
+    const { root = '.', ...own } = services[name] || {};
+    const serviceRoot = path.resolve(projectRoot, root);
+    if (!fs.existsSync(serviceRoot) || !fs.statSync(serviceRoot).isDirectory()) {
+      throw new Error(`Root directory of service "${name}" not found: ${serviceRoot}`);
+    }
+    return { service: name, root: serviceRoot, config: deepMerge(shared, own) };
+  });
+}
+
+/**
+ * The configuration `deploy` uses for `envName`: merged with its parents
+ * and with `${env:...}` and `${git:...}` placeholders filled in.
+ */
+export function resolveEnvironmentConfig(vafConfig: VafConfig, envName: string, cwd: string = process.cwd()): EnvironmentConfig {
+  return interpolate(mergeEnvironmentConfig(vafConfig, envName), cwd, `environments.${envName}`);
+}
+
+function printAvailableEnvironments(vafConfig: VafConfig): void {
+  Object.keys(vafConfig.environments).forEach(env => {
+    console.log(chalk.cyan(`  - ${env}`));
+  });
+}
+
+/**
+ * Resolves the `[project-id] [env-name]` arguments shared by deploy-style
+ * commands. When vaf.yml has an `id`, a single argument is the environment
+ * name; a missing environment is the one set with `vaf use`.
+ */
+export function resolveProjectTarget(
+  vafConfig: VafConfig | null,
+  projectId?: string,
+  envName?: string
+): ProjectTarget {
+  let finalProjectId = projectId;
+  let finalEnvName = envName;
+  
+  if (vafConfig) {
+    // If YAML has an ID, treat the first argument as environment name
+    if (vafConfig.id) {
+      finalProjectId = vafConfig.id.toString();
+      // If only one argument provided
+      if (!envName && projectId) {
+        // Check if it's a valid environment name
+        if (projectId in vafConfig.environments) {
+          finalEnvName = projectId; // Treat the first arg as environment name
+        } else {
+          // First arg is not a valid environment name
+          utils.error(`Environment "${projectId}" not found in vaf.yml`);
+          utils.info('Available environments:');
+          printAvailableEnvironments(vafConfig);
+          process.exit(1);
+        }
+      }
+    } else if (!finalProjectId) {
+      // No ID in YAML and no project ID provided
+      utils.error('Project ID is required');
+      utils.info('Either provide it as the first argument or add it to vaf.yml');
+      process.exit(1);
+    }
+  }
+  
+  if (!finalEnvName) {
+    finalEnvName = ConfigManager.getInstance().getEnvironment();
+  }
+
+  // Validate we have both project ID and environment name
+  if (!finalProjectId) {
+    utils.error('Project ID is required');
+    utils.info('Either provide it as the first argument or add it to vaf.yml');
+    process.exit(1);
+  }
+  
+  if (!finalEnvName) {
+    utils.error('Environment name is required');
+    utils.info('Pass it as an argument or set a current environment with "vaf use <env>"');
+    if (vafConfig && Object.keys(vafConfig.environments).length > 0) {
+      console.log(chalk.gray('Available environments:'));
+      printAvailableEnvironments(vafConfig);
+    }
+    process.exit(1);
+  }
+  
+  // Get environment configuration from YAML if available
+  const envConfig = vafConfig?.environments[finalEnvName]
+    ? resolveEnvironmentConfig(vafConfig, finalEnvName)
+    : undefined;
+  
+  if (!envConfig && vafConfig) {
+    utils.error(`Environment "${finalEnvName}" not found in vaf.yml`);
+    utils.info('Available environments:');
+    printAvailableEnvironments(vafConfig);
+    process.exit(1);
+  }
+
+  return {
+    projectId: finalProjectId,
+    envName: finalEnvName,
+    envConfig,
+  };
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as utils from './utils';
+
+const execAsync = promisify(exec);
+
+// What pip installs from, and what decides whether a cached layer is still valid
+export const PYTHON_DEPENDENCY_FILES = ['requirements.txt', 'pyproject.toml', 'setup.py', 'setup.cfg', 'poetry.lock', 'uv.lock'];
+
+// Lambda runs on Amazon Linux, so wheels are picked for it rather than for this machine
+const LAMBDA_PLATFORM = 'manylinux2014_x86_64';
+
+/**
+ * The pip arguments that install the project's dependencies: requirements.txt
+ * when there is one, otherwise the project from pyproject.toml or setup.py,
+ * whose dependencies are read with `declaredDependencies`. Undefined when
+ * there is nothing to install.
+ */
+function installSource(dir: string): string | undefined {
+  if (fs.existsSync(path.join(dir, 'requirements.txt'))) {
+    return '-r requirements.txt';
+  }
+  if (fs.existsSync(path.join(dir, 'pyproject.toml')) || fs.existsSync(path.join(dir, 'setup.py'))) {
+    return '.';
+  }
+  return undefined;
+}
+
+export function hasPythonDependencies(dir: string): boolean {
+  return installSource(dir) !== undefined;
+}
+
+/**
+ * The requirements a pyproject.toml or setup.py project declares, read from
+ * the metadata pip builds for it. Installing the project itself would put its
+ * code into the layer as well. Optional extras are left out.
+ */
+async function declaredDependencies(projectDir: string): Promise<string[]> {
+  // Build backends leave metadata like *.egg-info behind, which doesn't belong in the package
+  const existing = new Set(fs.readdirSync(projectDir));
+  try {
+    const { stdout } = await execAsync(
+      'python3 -m pip install --disable-pip-version-check --no-input --quiet --dry-run --no-deps --ignore-installed --report - .',
+      { cwd: projectDir, maxBuffer: 10 * 1024 * 1024 }
+    );
+    const requires: string[] = JSON.parse(stdout).install?.[0]?.metadata?.requires_dist || [];
+    return requires.filter((requirement) => !/\bextra\s*==/.test(requirement));
+  } catch (error: any) {
+    throw new Error(`Failed to read the dependencies of the Python project: ${(error.stderr || error.message).trim()}`);
+  } finally {
+    fs.readdirSync(projectDir)
+      .filter((name) => !existing.has(name))
+      .forEach((name) => fs.rmSync(path.join(projectDir, name), { recursive: true, force: true }));
+  }
+}
+
+/**
+ * Installs the dependencies of the project in `projectDir` into `targetDir`
+ * with `pip install --target`, replacing whatever is there. Binary wheels
+ * for the Lambda platform and Python version are preferred; when a package
+ * has none, pip falls back to building for this machine.
+ */
+export async function installPythonDependencies(projectDir: string, targetDir: string, runtime: string): Promise<void> {
+  let source = installSource(projectDir);
+  if (!source) {
+    return;
+  }
+
+  if (source === '.') {
+    const requirements = await declaredDependencies(projectDir);
+    source = requirements.map((requirement) => JSON.stringify(requirement)).join(' ');
+  }
+
+  const resetTarget = () => {
+    fs.rmSync(targetDir, { recursive: true, force: true });
+    fs.mkdirSync(targetDir, { recursive: true });
+  };
+  resetTarget();
+  if (!source) {
+    return;
+  }
+
+  const pythonVersion = /^python(\d+\.\d+)/.exec(runtime);
+  const command = `python3 -m pip install --disable-pip-version-check --no-input --quiet --target ${JSON.stringify(targetDir)} ${source}`;
+
+  try {
+    const platformFlags = [
+      `--platform ${LAMBDA_PLATFORM}`,
+      '--implementation cp',
+      ...(pythonVersion ? [`--python-version ${pythonVersion[1]}`] : []),
+      '--only-binary=:all:',
+    ].join(' ');
+    await execAsync(`${command} ${platformFlags}`, { cwd: projectDir });
+  } catch (error: any) {
+    utils.warn('No Lambda wheels for every dependency, installing for this machine (native modules may not load on Lambda)');
+    resetTarget();
+    try {
+      await execAsync(command, { cwd: projectDir });
+    } catch (fallbackError: any) {
+      throw new Error(`Failed to install Python dependencies: ${(fallbackError.stderr || fallbackError.message).trim()}`);
+    }
+  }
+}
@@ -0,0 +1,36 @@
+export type RuntimeFamily = 'nodejs' | 'python' | 'docker';
+
+export const DEFAULT_RUNTIME = 'nodejs18.x';
+
+const DEFAULT_HANDLERS: { [family in RuntimeFamily]: string | undefined } = {
+  nodejs: 'index.handler',
+  python: 'app.handler',
+  docker: undefined,
+};
+
+// Where Lambda looks for dependencies inside a layer (NODE_PATH and PYTHONPATH)
+export const LAYER_DIRS: { [family in Exclude<RuntimeFamily, 'docker'>]: string } = {
+  nodejs: 'nodejs/node_modules',
+  python: 'python',
+};
+
+/**
+ * Maps a Lambda runtime identifier like `nodejs20.x` or `python3.11` to the
+ * packaging flow it needs.
+ */
+export function runtimeFamily(runtime: string): RuntimeFamily {
+  if (runtime === 'docker') {
+    return 'docker';
+  }
+  if (runtime.startsWith('python')) {
+    return 'python';
+  }
+  if (runtime.startsWith('nodejs')) {
+    return 'nodejs';
+  }
+  throw new Error(`Unsupported runtime "${runtime}" (expected nodejs*, python* or docker)`);
+}
+
+export function defaultHandler(runtime: string): string | undefined {
+  return DEFAULT_HANDLERS[runtimeFamily(runtime)];
+}
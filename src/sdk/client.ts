@@ -0,0 +1,238 @@
+import { ApiClient, RequestOptions } from '../api';
+import { Validator, array } from './schema';
+import {
+  Cache,
+  CreateCacheParams,
+  CreateDatabaseParams,
+  CreateProjectParams,
+  CompleteUploadParams,
+  Database,
+  DeployParams,
+  Deployment,
+  EcrConfig,
+  EnvVariables,
+  Environment,
+  Id,
+  Layer,
+  LogsPage,
+  LogsQuery,
+  Project,
+  Session,
+  UploadUrl,
+  UploadUrlQuery,
+  UserInfo,
+  cacheSchema,
+  databaseSchema,
+  deployResultSchema,
+  deploymentSchema,
+  ecrConfigSchema,
+  envVariablesSchema,
+  environmentSchema,
+  layerSchema,
+  logsPageSchema,
+  projectSchema,
+  sessionSchema,
+  uploadUrlSchema,
+  userInfoSchema,
+} from './models';
+
+// Deployments can run for a long time before the backend answers
+const DEPLOY_TIMEOUT = 900000;
+// Publishing a layer and provisioning environments or databases also outlast the default timeout
+const PROVISION_TIMEOUT = 600000;
+
+class Resource {
+  constructor(protected readonly api: ApiClient) {}
+
+  protected async fetch<T>(url: string, schema: Validator<T>, options?: RequestOptions): Promise<T> {
+    return schema(await this.api.get<unknown>(url, options), `GET ${url}`);
+  }
+
+  protected async send<T>(url: string, data: unknown, schema: Validator<T>, options?: RequestOptions): Promise<T> {
+    return schema(await this.api.post<unknown>(url, data, options), `POST ${url}`);
+  }
+}
+
+export class AuthResource extends Resource {
+  public login(email: string, password: string): Promise<Session> {
+    return this.send('/api/login', { email, password }, sessionSchema);
+  }
+
+  /**
+   * Fetches the current user. Pass a token to check it before it is stored.
+   */
+  public async userInfo(token?: string): Promise<UserInfo> {
+    const url = '/api/user-info';
+    const data = await this.api.request<unknown>({
+      method: 'get',
+      url,
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    });
+    return userInfoSchema(data, `GET ${url}`);
+  }
+}
+
+export class ProjectsResource extends Resource {
+  public list(): Promise<Project[]> {
+    return this.fetch('/api/projects', array(projectSchema));
+  }
+
+  public get(projectId: Id): Promise<Project> {
+    return this.fetch(`/api/projects/${projectId}`, projectSchema);
+  }
+
+  public create(params: CreateProjectParams): Promise<Project> {
+    return this.send('/api/projects', params, projectSchema);
+  }
+
+  public async delete(projectId: Id): Promise<void> {
+    await this.api.delete(`/api/projects/${projectId}`);
+  }
+}
+
+/**
+ * Environments of one project, plus everything scoped to an environment:
+ * variables, deployments, uploads and logs.
+ */
+export class EnvironmentsResource extends Resource {
+  private readonly baseUrl: string;
+
+  constructor(api: ApiClient, public readonly projectId: Id) {
+    super(api);
+    this.baseUrl = `/api/projects/${projectId}/environments`;
+  }
+
+  public list(): Promise<Environment[]> {
+    return this.fetch(this.baseUrl, array(environmentSchema));
+  }
+
+  public get(envId: Id): Promise<Environment> {
+    return this.fetch(`${this.baseUrl}/${envId}`, environmentSchema);
+  }
+
+  public create(name: string): Promise<Environment> {
+    return this.send(this.baseUrl, { name }, environmentSchema, { timeout: PROVISION_TIMEOUT });
+  }
+
+  public async delete(envId: Id): Promise<void> {
+    await this.api.delete(`${this.baseUrl}/${envId}`);
+  }
+
+  public variables(envId: Id): Promise<EnvVariables> {
+    return this.fetch(`${this.baseUrl}/${envId}/env-variables`, envVariablesSchema);
+  }
+
+  public async setVariables(envId: Id, variables: EnvVariables): Promise<void> {
+    await this.api.post(`${this.baseUrl}/${envId}/env-variables`, variables);
+  }
+
+  public async removeVariable(envId: Id, key: string): Promise<void> {
+    await this.api.delete(`${this.baseUrl}/${envId}/env-variables/${encodeURIComponent(key)}`);
+  }
+
+  public deployments(envId: Id): Promise<Deployment[]> {
+    return this.fetch(`${this.baseUrl}/${envId}/deployment`, array(deploymentSchema));
+  }
+
+  public deployment(envId: Id, deploymentId: Id): Promise<Deployment> {
+    return this.fetch(`${this.baseUrl}/${envId}/deployment/${deploymentId}`, deploymentSchema);
+  }
+
+  public deploy(envId: Id, params: DeployParams, options?: RequestOptions): Promise<Partial<Deployment>> {
+    return this.send(
+      `${this.baseUrl}/${envId}/deployment/deploy`,
+      params,
+      deployResultSchema,
+      { timeout: DEPLOY_TIMEOUT, ...options }
+    );
+  }
+
+  public uploadUrl(envId: Id, query: UploadUrlQuery = {}): Promise<UploadUrl> {
+    const params = new URLSearchParams();
+    if (query.size !== undefined) params.set('size', String(query.size));
+    if (query.key) params.set('key', query.key);
+    if (query.uploadId) params.set('uploadId', query.uploadId);
+    const search = params.toString();
+    return this.fetch(`${this.baseUrl}/${envId}/deployment/upload-url${search ? `?${search}` : ''}`, uploadUrlSchema);
+  }
+
+  public async completeUpload(envId: Id, params: CompleteUploadParams): Promise<void> {
+    await this.api.post(`${this.baseUrl}/${envId}/deployment/upload-complete`, params);
+  }
+
+  public publishLayer(envId: Id, layerKey: string): Promise<Layer> {
+    return this.send(`${this.baseUrl}/${envId}/deployment/layer`, { layerKey }, layerSchema, {
+      timeout: PROVISION_TIMEOUT,
+    });
+  }
+
+  public ecrConfig(envId: Id): Promise<EcrConfig> {
+    return this.fetch(`${this.baseUrl}/${envId}/deployment/ecr-config`, ecrConfigSchema);
+  }
+
+  public logs(envId: Id, query: LogsQuery): Promise<LogsPage> {
+    const params = new URLSearchParams({ startTime: String(query.startTime) });
+    if (query.cursor) params.set('cursor', query.cursor);
+    if (query.filter) params.set('filter', query.filter);
+    return this.fetch(`${this.baseUrl}/${envId}/logs?${params.toString()}`, logsPageSchema);
+  }
+}
+
+export class DatabasesResource extends Resource {
+  public list(): Promise<Database[]> {
+    return this.fetch('/api/databases', array(databaseSchema));
+  }
+
+  public get(databaseId: Id): Promise<Database> {
+    return this.fetch(`/api/databases/${databaseId}`, databaseSchema);
+  }
+
+  public create(params: CreateDatabaseParams): Promise<Database> {
+    return this.send('/api/databases', params, databaseSchema, { timeout: PROVISION_TIMEOUT });
+  }
+
+  public async delete(databaseId: Id): Promise<void> {
+    await this.api.delete(`/api/databases/${databaseId}`);
+  }
+}
+
+export class CachesResource extends Resource {
+  public list(): Promise<Cache[]> {
+    return this.fetch('/api/caches', array(cacheSchema));
+  }
+
+  public get(cacheId: Id): Promise<Cache> {
+    return this.fetch(`/api/caches/${cacheId}`, cacheSchema);
+  }
+
+  public create(params: CreateCacheParams): Promise<Cache> {
+    return this.send('/api/caches', params, cacheSchema, { timeout: PROVISION_TIMEOUT });
+  }
+
+  public async delete(cacheId: Id): Promise<void> {
+    await this.api.delete(`/api/caches/${cacheId}`);
+  }
+}
+
+/**
+ * Typed entry point to the VAF API. Every response is validated before it is
+ * returned, so backend drift fails with the offending field instead of an
+ * `undefined` further down.
+ */
+export class VafClient {
+  public readonly auth: AuthResource;
+  public readonly projects: ProjectsResource;
+  public readonly databases: DatabasesResource;
+  public readonly caches: CachesResource;
+
+  constructor(public readonly api: ApiClient = new ApiClient()) {
+    this.auth = new AuthResource(api);
+    this.projects = new ProjectsResource(api);
+    this.databases = new DatabasesResource(api);
+    this.caches = new CachesResource(api);
+  }
+
+  public environments(projectId: Id): EnvironmentsResource {
+    return new EnvironmentsResource(this.api, projectId);
+  }
+}
@@ -0,0 +1,5 @@
+export { VafClient, EnvironmentsResource } from './client';
+export { ApiClient, ApiError, RequestOptions, SessionExpiredError } from '../api';
+export { ConfigManager } from '../config';
+export { ResponseValidationError } from './schema';
+export * from './models';
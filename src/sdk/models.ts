@@ -0,0 +1,334 @@
+import { ResponseValidationError, Validator, array, id, number, object, optional, record, string } from './schema';
+
+export type Id = string | number;
+
+export interface User {
+  id: Id;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  createdAt?: string;
+}
+
+export interface UserInfo {
+  user: User;
+}
+
+export interface Session {
+  token: string;
+  refreshToken?: string;
+  expiresAt?: string;
+}
+
+export interface Project {
+  id: Id;
+  name: string;
+  region?: string;
+  createdAt?: string;
+}
+
+export interface CreateProjectParams {
+  name: string;
+  region: string;
+}
+
+export interface Environment {
+  id: Id;
+  name: string;
+  status?: string;
+  createdAt?: string;
+}
+
+export type EnvVariables = Record<string, string>;
+
+export interface DeployParams {
+  runtime: string;
+  // Function within the environment, when it deploys several services
+  service?: string;
+  deploymentKey?: string;
+  imageUri?: string;
+  handler?: string;
+  memory?: number;
+  timeout?: number;
+  database?: string;
+  cache?: string;
+  storage?: string;
+  layers?: string[];
+}
+
+// Older deployments store their parameters on the record itself
+export type LegacyDeploymentParams = Pick<DeployParams, 'deploymentKey' | 'imageUri' | 'layers'>;
+
+export interface Deployment extends LegacyDeploymentParams {
+  id: Id;
+  status: string;
+  url?: string;
+  logs?: string;
+  createdAt?: string;
+  parameters?: Partial<DeployParams>;
+}
+
+export interface UploadPart {
+  partNumber: number;
+  url: string;
+}
+
+/**
+ * Either a single signed `uploadUrl`, or a multipart upload (`uploadId`,
+ * `partSize` and one signed URL per part) for large files.
+ */
+export interface UploadUrl {
+  uploadUrl?: string;
+  key?: string;
+  bucket?: string;
+  uploadId?: string;
+  partSize?: number;
+  parts?: UploadPart[];
+}
+
+export interface UploadUrlQuery {
+  size?: number;
+  // Set both to get fresh part URLs for an interrupted multipart upload
+  key?: string;
+  uploadId?: string;
+}
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface CompleteUploadParams {
+  key: string;
+  uploadId: string;
+  parts: CompletedPart[];
+}
+
+export interface Layer {
+  layerArn: string;
+  layerVersion: number;
+}
+
+export interface EcrConfig {
+  ecrRepositoryUri: string;
+  ecrImageUri: string;
+  awsAccountId: string;
+  region: string;
+  repositoryName: string;
+  dockerLoginCommand: string;
+}
+
+export interface LogEvent {
+  id?: string;
+  timestamp: string | number;
+  message: string;
+  level?: string;
+  stream?: string;
+}
+
+export interface LogsPage {
+  events: LogEvent[];
+  nextCursor?: string;
+}
+
+export interface LogsQuery {
+  startTime: number;
+  cursor?: string;
+  filter?: string;
+}
+
+export interface Database {
+  id: Id;
+  name: string;
+  engine?: string;
+  serverSpecs?: string;
+  status: string;
+  minimumDisk?: number;
+  retention?: number;
+  host?: string;
+  port?: number;
+  password?: string;
+  error?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface CreateDatabaseParams {
+  networkId: string;
+  name: string;
+  engine: string;
+  serverSpecs: string;
+  minimumDisk: number;
+  retention: number;
+}
+
+export interface Cache {
+  id: Id;
+  name: string;
+  type?: string;
+  serverSpecs?: string;
+  status: string;
+  endpoint?: string;
+  port?: number;
+  error?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface CreateCacheParams {
+  networkId: string;
+  name: string;
+  type: string;
+  serverSpecs: string;
+}
+
+export const userSchema: Validator<User> = object<User>({
+  id: id(),
+  email: string(),
+  firstName: optional(string()),
+  lastName: optional(string()),
+  createdAt: optional(string()),
+});
+
+export const userInfoSchema: Validator<UserInfo> = object<UserInfo>({
+  user: userSchema,
+});
+
+export const sessionSchema: Validator<Session> = object<Session>({
+  token: string(),
+  refreshToken: optional(string()),
+  expiresAt: optional(string()),
+});
+
+export const projectSchema: Validator<Project> = object<Project>({
+  id: id(),
+  name: string(),
+  region: optional(string()),
+  createdAt: optional(string()),
+});
+
+export const environmentSchema: Validator<Environment> = object<Environment>({
+  id: id(),
+  name: string(),
+  status: optional(string()),
+  createdAt: optional(string()),
+});
+
+export const envVariablesSchema: Validator<EnvVariables> = (value, path) =>
+  // The backend answers with an empty body when nothing is set
+  value === null || value === undefined || value === '' ? {} : record(string())(value, path);
+
+const deployParamsSchema: Validator<Partial<DeployParams>> = object<Partial<DeployParams>>({
+  runtime: optional(string()),
+  service: optional(string()),
+  deploymentKey: optional(string()),
+  imageUri: optional(string()),
+  handler: optional(string()),
+  memory: optional(number()),
+  timeout: optional(number()),
+  database: optional(string()),
+  cache: optional(string()),
+  storage: optional(string()),
+  layers: optional(array(string())),
+});
+
+export const deploymentSchema: Validator<Deployment> = object<Deployment>({
+  id: id(),
+  status: string(),
+  url: optional(string()),
+  logs: optional(string()),
+  createdAt: optional(string()),
+  parameters: optional(deployParamsSchema),
+  deploymentKey: optional(string()),
+  imageUri: optional(string()),
+  layers: optional(array(string())),
+});
+
+// Deploy can answer before a deployment record exists
+export const deployResultSchema: Validator<Partial<Deployment>> = object<Partial<Deployment>>({
+  id: optional(id()),
+  status: optional(string()),
+  url: optional(string()),
+  logs: optional(string()),
+  createdAt: optional(string()),
+  parameters: optional(deployParamsSchema),
+  deploymentKey: optional(string()),
+  imageUri: optional(string()),
+  layers: optional(array(string())),
+});
+
+const uploadPartSchema: Validator<UploadPart> = object<UploadPart>({
+  partNumber: number(),
+  url: string(),
+});
+
+export const uploadUrlSchema: Validator<UploadUrl> = (value, path) => {
+  const result = object<UploadUrl>({
+    uploadUrl: optional(string()),
+    key: optional(string()),
+    bucket: optional(string()),
+    uploadId: optional(string()),
+    partSize: optional(number()),
+    parts: optional(array(uploadPartSchema)),
+  })(value, path);
+  if (!result.uploadUrl && !(result.uploadId && result.partSize && result.parts)) {
+    throw new ResponseValidationError(path, 'an uploadUrl or multipart upload', value);
+  }
+  return result;
+};
+
+export const layerSchema: Validator<Layer> = object<Layer>({
+  layerArn: string(),
+  layerVersion: number(),
+});
+
+export const ecrConfigSchema: Validator<EcrConfig> = object<EcrConfig>({
+  ecrRepositoryUri: string(),
+  ecrImageUri: string(),
+  awsAccountId: string(),
+  region: string(),
+  repositoryName: string(),
+  dockerLoginCommand: string(),
+});
+
+const logEventSchema: Validator<LogEvent> = object<LogEvent>({
+  id: optional(string()),
+  timestamp: (value, path) => (typeof value === 'number' ? value : string()(value, path)),
+  message: string(),
+  level: optional(string()),
+  stream: optional(string()),
+});
+
+export const logsPageSchema: Validator<LogsPage> = object<LogsPage>({
+  events: (value, path) => (value === undefined || value === null ? [] : array(logEventSchema)(value, path)),
+  nextCursor: optional(string()),
+});
+
+export const databaseSchema: Validator<Database> = object<Database>({
+  id: id(),
+  name: string(),
+  engine: optional(string()),
+  serverSpecs: optional(string()),
+  status: string(),
+  minimumDisk: optional(number()),
+  retention: optional(number()),
+  host: optional(string()),
+  port: optional(number()),
+  password: optional(string()),
+  error: optional(string()),
+  createdAt: optional(string()),
+  updatedAt: optional(string()),
+});
+
+export const cacheSchema: Validator<Cache> = object<Cache>({
+  id: id(),
+  name: string(),
+  type: optional(string()),
+  serverSpecs: optional(string()),
+  status: string(),
+  endpoint: optional(string()),
+  port: optional(number()),
+  error: optional(string()),
+  createdAt: optional(string()),
+  updatedAt: optional(string()),
+});
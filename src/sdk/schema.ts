@@ -0,0 +1,96 @@
+/**
+ * Minimal runtime validators for API responses. Objects keep unknown keys so
+ * new backend fields pass through, but the fields the CLI relies on are
+ * checked before anything reads them.
+ */
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export class ResponseValidationError extends Error {
+  constructor(public readonly path: string, expected: string, value: unknown) {
+    super(`Unexpected API response: ${path} should be ${expected}, got ${describe(value)}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'string' ? `"${value}"` : typeof value;
+}
+
+export function string(): Validator<string> {
+  return (value, path) => {
+    if (typeof value !== 'string') throw new ResponseValidationError(path, 'a string', value);
+    return value;
+  };
+}
+
+export function number(): Validator<number> {
+  return (value, path) => {
+    if (typeof value !== 'number') throw new ResponseValidationError(path, 'a number', value);
+    return value;
+  };
+}
+
+export function boolean(): Validator<boolean> {
+  return (value, path) => {
+    if (typeof value !== 'boolean') throw new ResponseValidationError(path, 'a boolean', value);
+    return value;
+  };
+}
+
+// IDs come back as numbers from some endpoints and strings from others
+export function id(): Validator<string | number> {
+  return (value, path) => {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new ResponseValidationError(path, 'an ID', value);
+    }
+    return value;
+  };
+}
+
+export function unknown(): Validator<unknown> {
+  return (value) => value;
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : validator(value, path));
+}
+
+export function array<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new ResponseValidationError(path, 'an array', value);
+    return value.map((entry, i) => item(entry, `${path}[${i}]`));
+  };
+}
+
+export function record<T>(item: Validator<T>): Validator<Record<string, T>> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ResponseValidationError(path, 'an object', value);
+    }
+    const result: Record<string, T> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      result[key] = item(entry, `${path}.${key}`);
+    });
+    return result;
+  };
+}
+
+export function object<T extends object>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ResponseValidationError(path, 'an object', value);
+    }
+    const result: any = { ...value };
+    (Object.keys(shape) as Array<keyof T>).forEach((key) => {
+      const checked = shape[key]((value as any)[key], `${path}.${String(key)}`);
+      if (checked === undefined) {
+        delete result[key];
+      } else {
+        result[key] = checked;
+      }
+    });
+    return result;
+  };
+}
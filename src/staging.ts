@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { listPackageFiles } from './ignore';
+import { isPendingUploadFile } from './upload';
+import { PackageManager, installCommand, isWorkspaceMember, pruneCommand } from './packagemanager';
+import { progressStream } from './output';
+import * as utils from './utils';
+
+const SIGNAL_EXIT_CODES: { [signal: string]: number } = { SIGINT: 130, SIGTERM: 143, SIGHUP: 129 };
+
+const active = new Set<StagingDirectory>();
+let handlersInstalled = false;
+
+/**
+ * Runs an install or prune command with its output streamed to the terminal,
+ * installs can print far more than an exec buffer holds.
+ */
+function run(command: string, cwd: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { cwd, shell: true, stdio: ['ignore', progressStream(), 'inherit'] });
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} failed with ${signal ? `signal ${signal}` : `exit code ${code}`}`));
+      }
+    });
+  });
+}
+
+/**
+ * Removes every staging directory when the process ends, including on Ctrl-C
+ * and `process.exit()` calls that skip `finally` blocks.
+ */
+function installCleanupHandlers(): void {
+  if (handlersInstalled) {
+    return;
+  }
+  handlersInstalled = true;
+
+  process.on('exit', () => {
+    active.forEach((staging) => staging.cleanup());
+  });
+  Object.keys(SIGNAL_EXIT_CODES).forEach((signal) => {
+    process.on(signal, () => {
+      process.stderr.write('\n');
+      utils.warn('Interrupted, cleaning up...');
+      process.exit(SIGNAL_EXIT_CODES[signal]);
+    });
+  });
+}
+
+/**
+ * A temporary copy of the project that a deploy installs dependencies into
+ * and packages from, so the user's checkout is never modified.
+ */
+export class StagingDirectory {
+  // The copied project
+  public readonly appDir: string;
+  private readonly files = new Set<string>();
+  private installOnly: string[] = [];
+
+  private constructor(public readonly root: string) {
+    this.appDir = path.join(root, 'app');
+  }
+
+  public static create(): StagingDirectory {
+    installCleanupHandlers();
+    const staging = new StagingDirectory(fs.mkdtempSync(path.join(os.tmpdir(), 'vaf-deploy-')));
+    fs.mkdirSync(staging.appDir);
+    active.add(staging);
+    return staging;
+  }
+
+  /**
+   * Scratch path next to the copied project, removed with the staging directory.
+   */
+  public path(name: string): string {
+    return path.join(this.root, name);
+  }
+
+  /**
+   * Removes a file outside the staging directory at cleanup, unless it is
+   * kept for `--resume`.
+   */
+  public track(filePath: string): string {
+    this.files.add(filePath);
+    return filePath;
+  }
+
+  /**
+   * Copies the project without ignored files (including the `ignore` rules
+   * from vaf.yml) and node_modules. `installFiles` (manifests, lockfiles,
+   * install config) are copied even when ignored, and removed again by
+   * `removeInstallFiles` so they aren't packaged.
+   */
+  public copyProject(cwd: string, installFiles: string[], useGitignore?: boolean, ignore: string[] = []): number {
+    const files = listPackageFiles(cwd, { useGitignore, extraRules: ['/node_modules/', ...ignore] }).map((file) => file.path);
+    this.installOnly = installFiles.filter((name) => !files.includes(name) && fs.existsSync(path.join(cwd, name)));
+
+    [...files, ...this.installOnly].forEach((file) => {
+      const target = path.join(this.appDir, file);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(path.join(cwd, file), target);
+    });
+    return files.length;
+  }
+
+  /**
+   * Installs production dependencies into the copy. Falls back to pruning a
+   * copy of the project's node_modules, e.g. when offline or without a lockfile.
+   */
+  public async installDependencies(cwd: string, pm: PackageManager): Promise<void> {
+    if (!fs.existsSync(path.join(this.appDir, 'package.json'))) {
+      return;
+    }
+
+    utils.info(`Installing production dependencies with ${pm.name}...`);
+    try {
+      if (isWorkspaceMember(pm, cwd)) {
+        await this.installWorkspaceMember(cwd, pm);
+      } else {
+        await run(installCommand(pm, this.appDir), this.appDir);
+      }
+      utils.success('Dependencies installed');
+    } catch (error: any) {
+      const sourceNodeModules = path.join(cwd, 'node_modules');
+      if (!fs.existsSync(sourceNodeModules)) {
+        throw new Error(`Failed to install production dependencies: ${error.message}`);
+      }
+
+      const prune = pruneCommand(pm);
+      utils.warn(`${error.message}, ${prune ? 'pruning' : 'using'} a copy of the existing node_modules instead...`);
+      fs.rmSync(path.join(this.appDir, 'node_modules'), { recursive: true, force: true });
+      // Keep relative symlinks (pnpm, workspaces) pointing inside the copy
+      fs.cpSync(sourceNodeModules, path.join(this.appDir, 'node_modules'), { recursive: true, verbatimSymlinks: true });
+      if (prune) {
+        try {
+          await run(prune, this.appDir);
+          utils.success('Dependencies installed');
+        } catch (pruneError: any) {
+          utils.warn(`Failed to prune dev dependencies (${pruneError.message}), using a copy of the existing node_modules...`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether the install left any packages in the copy. Without production
+   * dependencies there's no node_modules, or only package manager metadata.
+   */
+  public hasDependencies(): boolean {
+    const nodeModules = path.join(this.appDir, 'node_modules');
+    return fs.existsSync(nodeModules) && fs.readdirSync(nodeModules).some((name) => !name.startsWith('.'));
+  }
+
+  public removeInstallFiles(): void {
+    this.installOnly.forEach((name) => fs.rmSync(path.join(this.appDir, name), { force: true }));
+  }
+
+  /**
+   * A workspace member can't be installed on its own, its lockfile is at the
+   * workspace root. `pnpm deploy` installs it with workspace dependencies
+   * copied in, into a self-contained node_modules.
+   */
+  private async installWorkspaceMember(cwd: string, pm: PackageManager): Promise<void> {
+    if (pm.name !== 'pnpm') {
+      throw new Error(`Installing a single ${pm.name} workspace package is not supported`);
+    }
+    const name = JSON.parse(fs.readFileSync(path.join(cwd, 'package.json'), 'utf-8')).name;
+    if (!name) {
+      throw new Error('The workspace package needs a name in package.json');
+    }
+
+    const deployDir = this.path('pnpm-deploy');
+    const command = `pnpm --filter ${JSON.stringify(name)} deploy --prod ${JSON.stringify(deployDir)}`;
+    try {
+      await run(command, cwd);
+    } catch (error) {
+      // pnpm 10 only deploys injected workspace packages unless asked for the old behaviour
+      fs.rmSync(deployDir, { recursive: true, force: true });
+      await run(`${command} --legacy`, cwd);
+    }
+    fs.renameSync(path.join(deployDir, 'node_modules'), path.join(this.appDir, 'node_modules'));
+  }
+
+  public cleanup(): void {
+    fs.rmSync(this.root, { recursive: true, force: true });
+    this.files.forEach((filePath) => {
+      if (fs.existsSync(filePath) && !isPendingUploadFile(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    });
+    active.delete(this);
+  }
+}
@@ -0,0 +1,380 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Transform } from 'stream';
+import axios from 'axios';
+import * as jsonfile from 'jsonfile';
+import { CONFIG_DIR } from './config';
+import { CompletedPart, EnvironmentsResource, UploadUrl } from './sdk';
+import * as utils from './utils';
+
+export const UPLOADS_DIR = path.join(CONFIG_DIR, 'uploads');
+// Packages are built here so an interrupted upload outlives the deploy's staging directory
+export const UPLOAD_FILES_DIR = path.join(UPLOADS_DIR, 'files');
+
+// Signed URLs can take a while for large files on slow connections
+const UPLOAD_TIMEOUT = 600000;
+const PART_RETRIES = 3;
+const PART_CONCURRENCY = 4;
+const RENDER_INTERVAL = 100;
+
+export type UploadKind = 'layer' | 'package';
+
+// Off while several uploads run side by side, their bars would overwrite each other
+let progressBars = true;
+
+export function setProgressBars(enabled: boolean): void {
+  progressBars = enabled;
+}
+
+/**
+ * What is needed to pick an upload up again in a later run: the file that
+ * was being sent (unchanged since) and the parts that already made it.
+ */
+export interface PendingUpload {
+  profile: string;
+  projectId: string;
+  environmentId: string;
+  // Set when the environment deploys several services
+  service?: string;
+  kind: UploadKind;
+  file: string;
+  size: number;
+  mtimeMs: number;
+  key?: string;
+  uploadId?: string;
+  completedParts: CompletedPart[];
+  // Caller-specific data, e.g. the dependency hash of a layer
+  meta?: { [key: string]: string };
+  startedAt: string;
+}
+
+export interface UploadTarget {
+  profile: string;
+  environments: EnvironmentsResource;
+  environmentId: string;
+  service?: string;
+  kind: UploadKind;
+}
+
+class ProgressBar {
+  private transferred = 0;
+  private readonly startedAt = Date.now();
+  private lastRender = 0;
+  private readonly interactive = progressBars && !!process.stderr.isTTY;
+
+  constructor(private readonly label: string, private readonly total: number, initial = 0) {
+    this.transferred = initial;
+  }
+
+  public tick(bytes: number): void {
+    this.transferred = Math.max(0, Math.min(this.total, this.transferred + bytes));
+    if (this.interactive && Date.now() - this.lastRender >= RENDER_INTERVAL) {
+      this.render();
+    }
+  }
+
+  private rate(): number {
+    const seconds = (Date.now() - this.startedAt) / 1000;
+    return seconds > 0 ? this.transferred / seconds : 0;
+  }
+
+  private render(): void {
+    this.lastRender = Date.now();
+    const width = 24;
+    const ratio = this.total > 0 ? this.transferred / this.total : 1;
+    const filled = Math.round(width * ratio);
+    const rate = this.rate();
+    const eta = rate > 0 ? Math.ceil((this.total - this.transferred) / rate) : undefined;
+
+    const line = `${this.label} [${'='.repeat(filled)}${' '.repeat(width - filled)}] ` +
+      `${Math.floor(ratio * 100)}% ${utils.formatBytes(this.transferred)}/${utils.formatBytes(this.total)} ` +
+      `${utils.formatBytes(Math.round(rate))}/s ETA ${eta === undefined ? '-' : formatSeconds(eta)}`;
+    process.stderr.write(`\r${line.slice(0, (process.stderr.columns || 120) - 1)}\u001b[K`);
+  }
+
+  public done(): void {
+    if (this.interactive) {
+      process.stderr.write('\r\u001b[K');
+    }
+    const seconds = (Date.now() - this.startedAt) / 1000;
+    utils.success(
+      `${this.label} uploaded: ${utils.formatBytes(this.total)} in ${formatSeconds(Math.round(seconds))} ` +
+      `(${utils.formatBytes(Math.round(this.rate()))}/s)`
+    );
+  }
+
+  public fail(): void {
+    if (this.interactive) {
+      process.stderr.write('\n');
+    }
+  }
+}
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m${seconds % 60}s` : `${Math.floor(minutes / 60)}h${minutes % 60}m`;
+}
+
+function statePath(profile: string, projectId: string, environmentId: string, kind: UploadKind, service?: string): string {
+  const parts = service ? [profile, projectId, environmentId, service, kind] : [profile, projectId, environmentId, kind];
+  const name = parts.map((part) => part.replace(/[^\w.-]/g, '_')).join('-');
+  return path.join(UPLOADS_DIR, `${name}.json`);
+}
+
+function saveState(state: PendingUpload): void {
+  if (!fs.existsSync(UPLOADS_DIR)) {
+    fs.mkdirSync(UPLOADS_DIR, { recursive: true, mode: 0o700 });
+  }
+  jsonfile.writeFileSync(statePath(state.profile, state.projectId, state.environmentId, state.kind, state.service), state, { spaces: 2 });
+}
+
+function clearState(state: PendingUpload): void {
+  const file = statePath(state.profile, state.projectId, state.environmentId, state.kind, state.service);
+  if (fs.existsSync(file)) {
+    fs.unlinkSync(file);
+  }
+}
+
+function readState(target: UploadTarget): PendingUpload | undefined {
+  const file = statePath(target.profile, target.environments.projectId.toString(), target.environmentId, target.kind, target.service);
+  try {
+    return fs.existsSync(file) ? jsonfile.readFileSync(file) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the interrupted upload for this environment when its file is still
+ * on disk and unchanged. Anything else is discarded.
+ */
+export function findPendingUpload(target: UploadTarget): PendingUpload | undefined {
+  const state = readState(target);
+  if (!state) {
+    return undefined;
+  }
+
+  const stats = fs.existsSync(state.file) ? fs.statSync(state.file) : undefined;
+  if (stats && stats.size === state.size && stats.mtimeMs === state.mtimeMs) {
+    return state;
+  }
+
+  discardPendingUpload(target);
+  return undefined;
+}
+
+/**
+ * Forgets an interrupted upload and deletes the package it kept around.
+ */
+export function discardPendingUpload(target: UploadTarget): void {
+  const state = readState(target);
+  if (!state) {
+    return;
+  }
+  clearState(state);
+  if (fs.existsSync(state.file)) {
+    fs.unlinkSync(state.file);
+  }
+}
+
+/**
+ * Path for a package that is about to be uploaded.
+ */
+export function uploadFilePath(name: string): string {
+  if (!fs.existsSync(UPLOAD_FILES_DIR)) {
+    fs.mkdirSync(UPLOAD_FILES_DIR, { recursive: true, mode: 0o700 });
+  }
+  return path.join(UPLOAD_FILES_DIR, name);
+}
+
+/**
+ * True when the file belongs to an interrupted upload and must be kept for
+ * `--resume`.
+ */
+export function isPendingUploadFile(filePath: string): boolean {
+  if (!fs.existsSync(UPLOADS_DIR)) {
+    return false;
+  }
+  return fs.readdirSync(UPLOADS_DIR).filter((name) => name.endsWith('.json')).some((name) => {
+    try {
+      return jsonfile.readFileSync(path.join(UPLOADS_DIR, name)).file === path.resolve(filePath);
+    } catch (error) {
+      return false;
+    }
+  });
+}
+
+function putStream(
+  url: string,
+  filePath: string,
+  range: { start: number; end: number },
+  progress: ProgressBar,
+  headers: { [name: string]: string } = {}
+): Promise<string | undefined> {
+  // Read lazily from disk so large packages never sit in memory
+  const source = fs.createReadStream(filePath, { start: range.start, end: range.end - 1 });
+  let sent = 0;
+  const stream = source.pipe(new Transform({
+    transform(chunk, encoding, callback) {
+      sent += chunk.length;
+      progress.tick(chunk.length);
+      callback(null, chunk);
+    },
+  }));
+
+  return axios
+    .put(url, stream, {
+      headers: { ...headers, 'Content-Length': String(range.end - range.start) },
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      timeout: UPLOAD_TIMEOUT,
+    })
+    .then((response) => response.headers.etag as string | undefined)
+    .catch((error) => {
+      // Take the bytes of the failed attempt back off the bar
+      progress.tick(-sent);
+      source.destroy();
+      throw error;
+    });
+}
+
+async function uploadPart(
+  url: string,
+  filePath: string,
+  range: { start: number; end: number },
+  partNumber: number,
+  progress: ProgressBar
+): Promise<CompletedPart> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const etag = await putStream(url, filePath, range, progress);
+      if (!etag) {
+        throw new Error('storage did not return an ETag');
+      }
+      return { partNumber, etag };
+    } catch (error: any) {
+      if (attempt > PART_RETRIES) {
+        throw new Error(`Part ${partNumber} failed after ${attempt} attempts: ${error.message}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+async function uploadMultipart(
+  signed: UploadUrl,
+  state: PendingUpload,
+  label: string
+): Promise<void> {
+  const partSize = signed.partSize as number;
+  const done = new Set(state.completedParts.map((part) => part.partNumber));
+  const partRange = (partNumber: number) => ({
+    start: (partNumber - 1) * partSize,
+    end: Math.min(state.size, partNumber * partSize),
+  });
+  const alreadySent = state.completedParts.reduce((sum, part) => {
+    const range = partRange(part.partNumber);
+    return sum + (range.end - range.start);
+  }, 0);
+
+  if (done.size > 0) {
+    utils.info(`Resuming upload, ${done.size} of ${signed.parts?.length} parts already uploaded`);
+  }
+
+  const progress = new ProgressBar(label, state.size, alreadySent);
+  const queue = (signed.parts || []).filter((part) => !done.has(part.partNumber));
+
+  const worker = async () => {
+    for (let part = queue.shift(); part; part = queue.shift()) {
+      const completed = await uploadPart(part.url, state.file, partRange(part.partNumber), part.partNumber, progress);
+      state.completedParts.push(completed);
+      // Persist after every part so an interrupted run can pick up from here
+      saveState(state);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: PART_CONCURRENCY }, worker));
+  } catch (error) {
+    progress.fail();
+    throw error;
+  }
+  progress.done();
+}
+
+/**
+ * Streams a package to storage, using a multipart upload when the backend
+ * hands out part URLs. Progress is saved so `resume` can finish an
+ * interrupted upload without re-packaging. Resolves with the storage key.
+ */
+export async function uploadPackage(
+  target: UploadTarget,
+  filePath: string,
+  label: string,
+  resume?: PendingUpload,
+  meta?: { [key: string]: string }
+): Promise<string | undefined> {
+  const stats = fs.statSync(filePath);
+  const environments = target.environments;
+
+  // A resumed multipart upload needs fresh URLs for the same upload ID
+  const signed = await environments.uploadUrl(target.environmentId, {
+    size: stats.size,
+    key: resume?.uploadId ? resume.key : undefined,
+    uploadId: resume?.uploadId,
+  });
+
+  const state: PendingUpload = {
+    profile: target.profile,
+    projectId: environments.projectId.toString(),
+    environmentId: target.environmentId,
+    service: target.service,
+    kind: target.kind,
+    file: path.resolve(filePath),
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    key: signed.key,
+    uploadId: signed.uploadId,
+    // Parts only carry over when the backend continued the same upload
+    completedParts: resume && resume.uploadId && resume.uploadId === signed.uploadId ? resume.completedParts : [],
+    meta: meta || resume?.meta,
+    startedAt: resume?.startedAt || new Date().toISOString(),
+  };
+  saveState(state);
+
+  if (signed.key) {
+    utils.info(`Upload destination: ${signed.key}`);
+  }
+
+  try {
+    if (signed.uploadId) {
+      await uploadMultipart(signed, state, label);
+      await environments.completeUpload(target.environmentId, {
+        key: signed.key as string,
+        uploadId: signed.uploadId,
+        parts: [...state.completedParts].sort((a, b) => a.partNumber - b.partNumber),
+      });
+    } else {
+      const progress = new ProgressBar(label, stats.size);
+      try {
+        await putStream(signed.uploadUrl as string, filePath, { start: 0, end: stats.size }, progress, {
+          'Content-Type': 'application/zip',
+        });
+      } catch (error) {
+        progress.fail();
+        throw error;
+      }
+      progress.done();
+    }
+  } catch (error: any) {
+    const uploadError: any = new Error(
+      `Failed to upload ${label.toLowerCase()}: ${error.message}. Run the deploy again with --resume to continue without re-packaging`
+    );
+    uploadError.cause = error;
+    throw uploadError;
+  }
+
+  clearState(state);
+  return signed.key;
+}
@@ -5,16 +5,27 @@ import archiver from 'archiver';
 import { promisify } from 'util';
 import { pipeline } from 'stream/promises';
 
+// Process exit codes, kept stable so scripts can branch on them
+export const EXIT_CODES = {
+  ERROR: 1,
+  BUILD_FAILED: 2,
+  UPLOAD_FAILED: 3,
+  SESSION_EXPIRED: 4,
+  DEPLOY_FAILED: 5,
+  HOOK_FAILED: 6,
+};
+
 export function error(message: string): void {
   console.error(chalk.red('✖ Error:'), message);
 }
 
+// Status messages go to stderr so stdout only carries command output
 export function success(message: string): void {
-  console.log(chalk.green('✓'), message);
+  console.error(chalk.green('✓'), message);
 }
 
 export function info(message: string): void {
-  console.log(chalk.blue('ℹ'), message);
+  console.error(chalk.blue('ℹ'), message);
 }
 
 export function warn(message: string): void {
@@ -25,15 +36,22 @@ export function prettyJson(obj: any): void {
   console.log(JSON.stringify(obj, null, 2));
 }
 
-export function formatDate(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleString();
+export function colourStatus(status: string): string {
+  return status === 'active' ? chalk.green(status) :
+    status === 'creating' ? chalk.yellow(status) :
+    status === 'failed' ? chalk.red(status) : status;
+}
+
+// Dates are optional in API responses, show "-" rather than "Invalid Date"
+export function formatDate(dateString?: string): string {
+  const date = dateString ? new Date(dateString) : undefined;
+  return date && !isNaN(date.getTime()) ? date.toLocaleString() : '-';
 }
 
-export async function zipDirectory(
-  dirPath: string,
-  outputPath: string,
-  ignorePatterns?: string[]
+export async function zipFiles(
+  rootPath: string,
+  files: Array<{ path: string }>,
+  outputPath: string
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     const output = fs.createWriteStream(outputPath);
@@ -44,33 +62,26 @@ export async function zipDirectory(
     archive.on('error', reject);
 
     archive.pipe(output);
-
-    // Add .vafignore patterns if provided
-    if (ignorePatterns && ignorePatterns.length > 0) {
-      archive.glob('**/*', {
-        cwd: dirPath,
-        ignore: ignorePatterns,
-      });
-    } else {
-      archive.directory(dirPath, false);
-    }
-
+    files.forEach((file) => {
+      archive.file(path.join(rootPath, file.path), { name: file.path });
+    });
     archive.finalize();
   });
 }
 
-export async function readVafIgnore(dirPath: string): Promise<string[]> {
-  const ignoreFile = path.join(dirPath, '.vafignore');
-  if (!fs.existsSync(ignoreFile)) {
-    return ['node_modules/**', '.git/**', '*.log', '.env', '.DS_Store'];
+/**
+ * Reads the `exp` claim of a JWT without verifying it. Returns undefined for
+ * opaque tokens.
+ */
+export function getJwtExpiry(token: string): Date | undefined {
+  const [, payload] = token.split('.');
+  if (!payload) return undefined;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    return typeof claims.exp === 'number' ? new Date(claims.exp * 1000) : undefined;
+  } catch (error) {
+    return undefined;
   }
-
-  const content = fs.readFileSync(ignoreFile, 'utf-8');
-  const patterns = content
-    .split('\n')
-    .map((line) => line.trim())
-    .filter((line) => line && !line.startsWith('#'));
-  return patterns;
 }
 
 export function formatBytes(bytes: number): string {
@@ -81,12 +92,19 @@ export function formatBytes(bytes: number): string {
   return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
 }
 
-export interface EcrConfigResponse {
-  ecrRepositoryUri: string;
-  ecrImageUri: string;
-  awsAccountId: string;
-  region: string;
-  repositoryName: string;
-  dockerLoginCommand: string;
+// Levenshtein distance, for "did you mean" suggestions
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
 }
-
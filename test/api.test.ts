@@ -0,0 +1,52 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ApiClient } from '../src/api';
+
+describe('ApiClient retries', () => {
+  let server: http.Server;
+  let status: number;
+  const requests: string[] = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      req.resume();
+      req.on('end', () => {
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ message: `status ${status}` }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.VAF_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.VAF_TOKEN = 'test-token';
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('does not send a POST again after a gateway timeout', async () => {
+    status = 504;
+    await assert.rejects(new ApiClient({ retries: 2 }).post('/api/deploy', {}), { status: 504 });
+    assert.deepEqual(requests, ['POST /api/deploy']);
+  });
+
+  it('retries a GET after a gateway timeout', async () => {
+    status = 504;
+    await assert.rejects(new ApiClient({ retries: 1 }).get('/api/projects'), { status: 504 });
+    assert.deepEqual(requests, ['GET /api/projects', 'GET /api/projects']);
+  });
+
+  it('retries a POST the server did not process', async () => {
+    status = 503;
+    await assert.rejects(new ApiClient({ retries: 1 }).post('/api/deploy', {}), { status: 503 });
+    assert.deepEqual(requests, ['POST /api/deploy', 'POST /api/deploy']);
+  });
+});
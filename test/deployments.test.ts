@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Deployment } from '../src/sdk';
+import { getDeploymentParams, newestFirst, rollbackTarget } from '../src/deployments';
+
+function deployment(id: number, deploymentKey: string, status = 'success', service?: string): Deployment {
+  return {
+    id,
+    status,
+    createdAt: new Date(Date.UTC(2026, 0, id)).toISOString(),
+    parameters: { deploymentKey, service },
+  };
+}
+
+describe('getDeploymentParams', () => {
+  it('keeps the parameters a rollback can replay', () => {
+    const params = getDeploymentParams({
+      id: 1,
+      status: 'success',
+      parameters: { runtime: 'nodejs20.x', deploymentKey: 'v1', memory: 512, database: undefined },
+    });
+    assert.deepEqual(params, { runtime: 'nodejs20.x', deploymentKey: 'v1', memory: 512 });
+  });
+
+  it('reads older deployments that store their parameters on the record', () => {
+    const params = getDeploymentParams({ id: 1, status: 'success', imageUri: 'repo:v1', layers: ['arn:layer:1'] });
+    assert.deepEqual(params, { imageUri: 'repo:v1', layers: ['arn:layer:1'] });
+  });
+});
+
+describe('newestFirst', () => {
+  it('sorts by date and keeps deployments without one last', () => {
+    const undated: Deployment = { id: 9, status: 'success' };
+    const sorted = newestFirst([deployment(1, 'a'), undated, deployment(3, 'c'), deployment(2, 'b')]);
+    assert.deepEqual(sorted.map((d) => d.id), [3, 2, 1, 9]);
+  });
+});
+
+describe('rollbackTarget', () => {
+  it('picks the release before the live one', () => {
+    const deployments = [deployment(1, 'v1'), deployment(2, 'v2'), deployment(3, 'v3')];
+    assert.equal(rollbackTarget(deployments)?.id, 2);
+  });
+
+  it('skips failed deployments', () => {
+    const deployments = [deployment(1, 'v1'), deployment(2, 'v2', 'failed'), deployment(3, 'v3')];
+    assert.equal(rollbackTarget(deployments)?.id, 1);
+  });
+
+  it('goes back further after a rollback instead of returning to the release rolled back from', () => {
+    // v3 was rolled back to v2 (deployment 4), rolling back again goes to v1
+    const deployments = [deployment(1, 'v1'), deployment(2, 'v2'), deployment(3, 'v3'), deployment(4, 'v2')];
+    assert.equal(rollbackTarget(deployments)?.id, 1);
+  });
+
+  it('has nothing to go back to after rolling back to the first release', () => {
+    const deployments = [deployment(1, 'v1'), deployment(2, 'v2'), deployment(3, 'v1')];
+    assert.equal(rollbackTarget(deployments), undefined);
+  });
+
+  it('only looks at deployments of the service', () => {
+    const deployments = [
+      deployment(1, 'api-1', 'success', 'api'),
+      deployment(2, 'worker-1', 'success', 'worker'),
+      deployment(3, 'api-2', 'success', 'api'),
+      deployment(4, 'worker-2', 'success', 'worker'),
+    ];
+    assert.equal(rollbackTarget(deployments, 'api')?.id, 1);
+    assert.equal(rollbackTarget(deployments, 'worker')?.id, 2);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../src/config';
+import { VafConfig, resolveCommandTarget, resolveProjectTarget } from '../src/project';
+
+const VAF_YML = `id: 42
+name: shop
+environments:
+  production: {}
+  staging: {}
+`;
+
+// The spec of `vaf deployments rollback [project-id] [env-name] [deployment-id]`
+const ROLLBACK = { env: true as const, optional: 1 };
+
+describe('resolveCommandTarget', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vaf-test-'));
+    process.chdir(dir);
+    mock.method(ConfigManager.getInstance(), 'getEnvironment', () => 'current');
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('with an id in vaf.yml', () => {
+    beforeEach(() => {
+      fs.writeFileSync(path.join(dir, 'vaf.yml'), VAF_YML);
+    });
+
+    it('takes the environment before an optional argument', () => {
+      assert.deepEqual(resolveCommandTarget(['staging'], ROLLBACK), { projectId: '42', envName: 'staging', args: [] });
+    });
+
+    it('takes the optional argument after the environment', () => {
+      assert.deepEqual(resolveCommandTarget(['staging', '17'], ROLLBACK), {
+        projectId: '42',
+        envName: 'staging',
+        args: ['17'],
+      });
+    });
+
+    it('takes the project when every argument is given', () => {
+      assert.deepEqual(resolveCommandTarget(['7', 'staging', '17'], ROLLBACK), {
+        projectId: '7',
+        envName: 'staging',
+        args: ['17'],
+      });
+    });
+
+    it('defaults to the project and the current environment', () => {
+      assert.deepEqual(resolveCommandTarget([], ROLLBACK), { projectId: '42', envName: 'current', args: [] });
+    });
+
+    it('leaves required arguments for the command', () => {
+      assert.deepEqual(resolveCommandTarget(['KEY', 'value'], { env: true, required: 2 }), {
+        projectId: '42',
+        envName: 'current',
+        args: ['KEY', 'value'],
+      });
+    });
+
+    it('never defaults an argument the command requires, like the environment of env delete', () => {
+      assert.throws(() => resolveCommandTarget([], { required: 1 }), /Missing required arguments/);
+      assert.deepEqual(resolveCommandTarget(['staging'], { required: 1 }), { projectId: '42', envName: undefined, args: ['staging'] });
+    });
+
+    it('rejects more arguments than the command takes', () => {
+      assert.throws(() => resolveCommandTarget(['7', 'staging', '17', '18'], ROLLBACK), /Too many arguments/);
+    });
+  });
+
+  describe('without vaf.yml', () => {
+    it('takes the project and environment before an optional argument', () => {
+      assert.deepEqual(resolveCommandTarget(['7', 'staging', '17'], ROLLBACK), {
+        projectId: '7',
+        envName: 'staging',
+        args: ['17'],
+      });
+    });
+
+    it('defaults to the current environment', () => {
+      assert.deepEqual(resolveCommandTarget(['7'], ROLLBACK), { projectId: '7', envName: 'current', args: [] });
+    });
+
+    it('requires a project', () => {
+      assert.throws(() => resolveCommandTarget([], ROLLBACK), /Project ID is required/);
+    });
+  });
+});
+
+// `vaf logs [project-id] [env-name]`
+describe('resolveProjectTarget', () => {
+  const vafConfig = { id: 42, name: 'shop', environments: { production: {}, staging: {} } } as VafConfig;
+
+  beforeEach(() => {
+    mock.method(ConfigManager.getInstance(), 'getEnvironment', () => 'staging');
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('reads a single argument as the environment with an id in vaf.yml', () => {
+    assert.deepEqual(resolveProjectTarget(vafConfig, 'production'), {
+      projectId: '42',
+      envName: 'production',
+      envConfig: {},
+    });
+  });
+
+  it('defaults to the current environment with an id in vaf.yml', () => {
+    assert.equal(resolveProjectTarget(vafConfig).envName, 'staging');
+  });
+
+  it('takes the project and environment without vaf.yml', () => {
+    assert.deepEqual(resolveProjectTarget(null, '7', 'production'), { projectId: '7', envName: 'production', envConfig: undefined });
+  });
+
+  it('defaults to the current environment without vaf.yml', () => {
+    assert.deepEqual(resolveProjectTarget(null, '7'), { projectId: '7', envName: 'staging', envConfig: undefined });
+  });
+});